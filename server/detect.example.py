@@ -0,0 +1,84 @@
+#!/usr/bin/env python3
+"""Template for a Python detector worker.
+
+Copy this file to server/detect.py and fill in load_model() and detect();
+the Node server starts a pool of these processes (see pythonWorkerPool.js)
+and exchanges framed messages with them over stdin/stdout:
+
+    [uint32 BE header length][uint32 BE body length][header JSON][body bytes]
+
+Requests carry {"id", "type": "detect", "frame_id", "capture_ts"} and the
+encoded image (JPEG/PNG) as the body. Reply with {"id", "detections": [...]}
+where each detection is {"label", "score", "xmin", "ymin", "xmax", "ymax"}
+in normalized [0, 1] frame coordinates, or {"id", "error": "..."}.
+
+stdout carries protocol frames only; log to stderr.
+"""
+
+import json
+import struct
+import sys
+
+PREFIX = struct.Struct(">II")
+
+
+def load_model():
+    # e.g. torch.hub.load(...) or torchvision.models.detection.*; runs once per worker
+    return None
+
+
+def detect(model, image_bytes, header):
+    # Decode image_bytes (e.g. PIL.Image.open(io.BytesIO(image_bytes))) and run the model
+    return []
+
+
+def read_exact(stream, size):
+    data = b""
+    while len(data) < size:
+        chunk = stream.read(size - len(data))
+        if not chunk:
+            return None
+        data += chunk
+    return data
+
+
+def read_frame(stream):
+    prefix = read_exact(stream, PREFIX.size)
+    if prefix is None:
+        return None, None
+    header_length, body_length = PREFIX.unpack(prefix)
+    header = json.loads(read_exact(stream, header_length).decode("utf-8"))
+    body = read_exact(stream, body_length) if body_length else b""
+    return header, body
+
+
+def write_frame(stream, header):
+    header_bytes = json.dumps(header).encode("utf-8")
+    stream.write(PREFIX.pack(len(header_bytes), 0))
+    stream.write(header_bytes)
+    stream.flush()
+
+
+def main():
+    stdin = sys.stdin.buffer
+    stdout = sys.stdout.buffer
+
+    model = load_model()
+    write_frame(stdout, {"type": "ready"})
+
+    while True:
+        header, body = read_frame(stdin)
+        if header is None:
+            # The server closed our stdin: shut down
+            return
+
+        try:
+            detections = detect(model, body, header)
+            write_frame(stdout, {"id": header["id"], "detections": detections})
+        except Exception as error:  # report and keep serving
+            print(f"detection failed: {error}", file=sys.stderr)
+            write_frame(stdout, {"id": header["id"], "error": str(error)})
+
+
+if __name__ == "__main__":
+    main()
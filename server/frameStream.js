@@ -0,0 +1,73 @@
+// Binary frames sent up the signaling WebSocket in server mode:
+//   [uint32 BE header length][header JSON { type: 'frame', frame_id, capture_ts }][encoded image]
+// Kept in sync with encodeFrameMessage in src/components/WebRTCStream.tsx.
+function decodeFrameMessage(buffer) {
+  if (buffer.length < 4) {
+    throw new Error('Frame message is too short');
+  }
+
+  const headerLength = buffer.readUInt32BE(0);
+  if (buffer.length < 4 + headerLength) {
+    throw new Error('Frame message header is truncated');
+  }
+
+  const header = JSON.parse(buffer.subarray(4, 4 + headerLength).toString('utf8'));
+  if (header.type !== 'frame') {
+    throw new Error(`Unexpected binary message type: ${header.type}`);
+  }
+
+  return { header, image: buffer.subarray(4 + headerLength) };
+}
+
+/**
+ * Latest-frame-wins scheduling for one connection: at most one frame is being
+ * inferred and at most one waits behind it. A frame arriving while another is
+ * waiting replaces it, so slow inference drops stale frames instead of
+ * building a backlog.
+ */
+class LatestFrameScheduler {
+  constructor(processFrame) {
+    this.processFrame = processFrame;
+    this.pending = null;
+    this.busy = false;
+    this.closed = false;
+    this.dropped = 0;
+  }
+
+  submit(frame) {
+    if (this.closed) return;
+
+    if (this.pending) {
+      this.dropped++;
+    }
+    this.pending = frame;
+
+    if (!this.busy) {
+      this.drain();
+    }
+  }
+
+  close() {
+    this.closed = true;
+    this.pending = null;
+  }
+
+  async drain() {
+    this.busy = true;
+
+    while (this.pending && !this.closed) {
+      const frame = this.pending;
+      this.pending = null;
+
+      try {
+        await this.processFrame(frame);
+      } catch (error) {
+        console.error('Frame processing failed:', error);
+      }
+    }
+
+    this.busy = false;
+  }
+}
+
+module.exports = { decodeFrameMessage, LatestFrameScheduler };
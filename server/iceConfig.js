@@ -0,0 +1,76 @@
+const crypto = require('crypto');
+
+const DEFAULT_ICE_OPTIONS = {
+  stunUrls: ['stun:stun.l.google.com:19302', 'stun:stun1.l.google.com:19302'],
+  turnUrls: [],
+  // Shared secret of a TURN server using the REST API scheme (coturn's
+  // use-auth-secret / static-auth-secret); credentials are derived per request
+  turnSecret: null,
+  // Fixed credentials for TURN servers without the REST API
+  turnUsername: null,
+  turnCredential: null,
+  // Lifetime of derived TURN credentials
+  turnTtlSeconds: 24 * 60 * 60,
+  // No STUN or TURN at all: peers only use host candidates (offline LANs)
+  hostOnly: false
+};
+
+/**
+ * ICE servers for browsers (served at /api/ice-config) and the server-side
+ * peer. TURN credentials from a shared secret follow the TURN REST API
+ * convention: the username is "<expiry unix time>:<user>" and the password is
+ * the base64 HMAC-SHA1 of the username, so the TURN server can check them
+ * without a user database and they stop working once they expire.
+ */
+class IceConfigProvider {
+  constructor(options = {}) {
+    this.options = { ...DEFAULT_ICE_OPTIONS, ...options };
+  }
+
+  // Returns an RTCConfiguration fragment: { iceServers, expiresAt }; expiresAt
+  // (ms) is set when the TURN credentials are time-limited
+  getConfig(user = crypto.randomBytes(8).toString('hex')) {
+    const { stunUrls, turnUrls, turnSecret, turnUsername, turnCredential, turnTtlSeconds, hostOnly } = this.options;
+    if (hostOnly) {
+      return { iceServers: [], expiresAt: null };
+    }
+
+    const iceServers = [];
+    if (stunUrls.length > 0) {
+      iceServers.push({ urls: stunUrls });
+    }
+
+    let expiresAt = null;
+    if (turnUrls.length > 0) {
+      if (turnSecret) {
+        const expiry = Math.floor(Date.now() / 1000) + turnTtlSeconds;
+        const username = `${expiry}:${user}`;
+        const credential = crypto.createHmac('sha1', turnSecret).update(username).digest('base64');
+        iceServers.push({ urls: turnUrls, username, credential });
+        expiresAt = expiry * 1000;
+      } else if (turnUsername && turnCredential) {
+        iceServers.push({ urls: turnUrls, username: turnUsername, credential: turnCredential });
+      } else {
+        console.warn('TURN URLs configured without ICE_TURN_SECRET or ICE_TURN_USERNAME/ICE_TURN_CREDENTIAL; skipping TURN');
+      }
+    }
+
+    return { iceServers, expiresAt };
+  }
+}
+
+// ICE_* variables; list values are comma-separated, and ICE_STUN_URLS= (empty) disables STUN
+function iceOptionsFromEnv(env = process.env) {
+  const list = (value) => value.split(',').map(url => url.trim()).filter(Boolean);
+  const options = {};
+  if (env.ICE_STUN_URLS !== undefined) options.stunUrls = list(env.ICE_STUN_URLS);
+  if (env.ICE_TURN_URLS) options.turnUrls = list(env.ICE_TURN_URLS);
+  if (env.ICE_TURN_SECRET) options.turnSecret = env.ICE_TURN_SECRET;
+  if (env.ICE_TURN_USERNAME) options.turnUsername = env.ICE_TURN_USERNAME;
+  if (env.ICE_TURN_CREDENTIAL) options.turnCredential = env.ICE_TURN_CREDENTIAL;
+  if (env.ICE_TURN_TTL_SECONDS) options.turnTtlSeconds = parseInt(env.ICE_TURN_TTL_SECONDS, 10);
+  options.hostOnly = env.ICE_HOST_ONLY === '1';
+  return options;
+}
+
+module.exports = { IceConfigProvider, iceOptionsFromEnv };
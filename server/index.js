@@ -1,10 +1,20 @@
 const express = require('express');
 const WebSocket = require('ws');
 const http = require('http');
+const crypto = require('crypto');
 const path = require('path');
 const cors = require('cors');
 const multer = require('multer');
 const { ObjectDetectionServer } = require('./objectDetectionServer');
+const { decodeFrameMessage, LatestFrameScheduler } = require('./frameStream');
+const { ServerVideoPeer } = require('./serverPeer');
+const { PairingRegistry } = require('./pairing');
+const { SessionRegistry } = require('./sessions');
+const { IceConfigProvider, iceOptionsFromEnv } = require('./iceConfig');
+
+// Signaling message validation shared with the browser pages. It is an ES
+// module, so it is imported (before the server starts listening) rather than required.
+let protocol;
 
 const app = express();
 const server = http.createServer(app);
@@ -28,26 +38,127 @@ try {
 // Multer for handling file uploads
 const upload = multer({ limits: { fileSize: 10 * 1024 * 1024 } });
 
-// Initialize object detection server
-const detectionServer = new ObjectDetectionServer();
+// Initialize object detection server. MOCK_SEED and/or MOCK_SCENARIO (path to a
+// scenario JSON file) switch it to the deterministic mock backend for QA.
+function mockOptionsFromEnv() {
+  const { MOCK_SEED, MOCK_SCENARIO } = process.env;
+  if (MOCK_SEED === undefined && MOCK_SCENARIO === undefined) return null;
+  return {
+    seed: MOCK_SEED !== undefined ? parseInt(MOCK_SEED, 10) : 0,
+    scenarioPath: MOCK_SCENARIO ? path.resolve(MOCK_SCENARIO) : undefined
+  };
+}
+
+// PYTHON_* variables configure the detect.py worker pool used when no ONNX model loads
+function pythonOptionsFromEnv() {
+  const { PYTHON_BIN, PYTHON_WORKERS, PYTHON_TIMEOUT_MS, PYTHON_MAX_QUEUE } = process.env;
+  const options = {};
+  if (PYTHON_BIN) options.pythonPath = PYTHON_BIN;
+  if (PYTHON_WORKERS) options.size = parseInt(PYTHON_WORKERS, 10);
+  if (PYTHON_TIMEOUT_MS) options.requestTimeoutMs = parseInt(PYTHON_TIMEOUT_MS, 10);
+  if (PYTHON_MAX_QUEUE) options.maxQueueDepth = parseInt(PYTHON_MAX_QUEUE, 10);
+  return options;
+}
+
+const detectionServer = new ObjectDetectionServer({
+  mock: mockOptionsFromEnv(),
+  modelId: process.env.MODEL_ID,
+  modelsDir: process.env.MODELS_DIR,
+  python: pythonOptionsFromEnv()
+});
+
+// SERVER_PEER=1 makes the server receive every phone's video itself; otherwise
+// it only does so for rooms where a browser asked for it (serverPeer in join)
+const SERVER_PEER_ALWAYS = process.env.SERVER_PEER === '1';
+const FFMPEG_PATH = process.env.FFMPEG_PATH || 'ffmpeg';
+// STUN/TURN servers for every peer connection, the browsers' and the server's own
+const iceConfig = new IceConfigProvider(iceOptionsFromEnv());
 
-// WebRTC signaling and detection results WebSocket
+// WebRTC signaling and detection results WebSocket. Rooms are created on demand
+// by the dashboard and joined by its phones (one camera each) through the room
+// ID in the QR code.
 const clients = new Map();
 let roomConnections = new Map();
+// room ID -> viewer key. The room ID travels in every QR code, so joining an
+// existing room as a viewer (and so issuing pairing codes) needs this key too;
+// it is only handed to viewers and shared through the viewer link.
+const roomViewerKeys = new Map();
+// phone peer ID -> { roomId, peer: ServerVideoPeer, scheduler: LatestFrameScheduler }
+const serverPeers = new Map();
+// Phones join with a single-use token (from the QR code) or PIN issued to the room's viewer
+// (options left unset keep the registry's defaults)
+const pairings = new PairingRegistry(
+  process.env.PAIRING_TTL_MS ? { ttlMs: parseInt(process.env.PAIRING_TTL_MS, 10) } : {}
+);
+// A client whose socket drops keeps its peer ID and room membership for this
+// long, so a reconnect can resume the session instead of starting over
+const sessions = new SessionRegistry(
+  process.env.RESUME_GRACE_MS ? { graceMs: parseInt(process.env.RESUME_GRACE_MS, 10) } : {}
+);
+// Every client is pinged each interval; one that has not answered for the
+// timeout (e.g. a phone that dropped off Wi-Fi) is terminated and leaves its
+// room at once: its peers get peer-left (reason 'timeout') without waiting out
+// the resume grace period, which only covers sockets that drop on their own.
+const HEARTBEAT_INTERVAL_MS = parseInt(process.env.HEARTBEAT_INTERVAL_MS || '5000', 10);
+const HEARTBEAT_TIMEOUT_MS = parseInt(process.env.HEARTBEAT_TIMEOUT_MS || '15000', 10);
+
+const heartbeatTimer = setInterval(() => {
+  const now = Date.now();
+  for (const ws of wss.clients) {
+    if (now - ws.lastSeenAt > HEARTBEAT_TIMEOUT_MS) {
+      console.log(`Evicting unresponsive ${ws.role || 'unknown'} client ${ws.peerId} (silent for ${now - ws.lastSeenAt}ms)`);
+      ws.leaveReason = 'timeout';
+      ws.terminate();
+    } else if (ws.readyState === WebSocket.OPEN) {
+      ws.ping();
+    }
+  }
+}, HEARTBEAT_INTERVAL_MS);
+wss.on('close', () => clearInterval(heartbeatTimer));
 
 wss.on('connection', (ws, req) => {
   console.log('New WebSocket connection from:', req.headers.origin || req.headers.host);
+  // Signaling address of this client: offers, answers and ICE candidates are
+  // tagged with from/to peer IDs ('server' is the server-side WebRTC peer)
+  ws.peerId = crypto.randomBytes(8).toString('hex');
+  // Failed pairing attempts are counted per address (see PairingRegistry)
+  ws.remoteAddress = req.socket.remoteAddress;
+  // Any traffic proves the client is alive, not just pongs
+  ws.lastSeenAt = Date.now();
+  ws.on('pong', () => {
+    ws.lastSeenAt = Date.now();
+  });
   
-  ws.on('message', async (message) => {
+  ws.on('message', async (message, isBinary) => {
+    ws.lastSeenAt = Date.now();
+    if (isBinary) {
+      handleFrame(ws, message);
+      return;
+    }
+
+    const { message: data, error } = protocol.parseClientMessage(message.toString());
+    if (error) {
+      console.log(`Rejected message from ${ws.role || 'unknown'} client: ${error.message}`);
+      sendError(ws, error.code, error.message, error.messageType);
+      return;
+    }
+
+    if (data.type !== 'join' && data.type !== 'start-stream' && !ws.roomId) {
+      sendError(ws, 'not-joined', `Join a room before sending ${data.type}.`, data.type);
+      return;
+    }
+
     try {
-      const data = JSON.parse(message);
-      
       switch (data.type) {
         case 'join':
         case 'start-stream':
           handleStartStream(ws, data);
           break;
           
+        case 'create-pairing':
+          handleCreatePairing(ws);
+          break;
+
         case 'offer':
           handleOffer(ws, data);
           break;
@@ -59,132 +170,584 @@ wss.on('connection', (ws, req) => {
         case 'ice-candidate':
           handleIceCandidate(ws, data);
           break;
-          
-        default:
-          console.log('Unknown message type:', data.type);
       }
     } catch (error) {
       console.error('WebSocket message error:', error);
     }
   });
 
-  ws.on('close', () => {
-    console.log(`WebSocket connection closed for ${ws.role || 'unknown'} client`);
-    // Clean up client from rooms
-    for (let [roomId, connections] of roomConnections) {
-      const index = connections.indexOf(ws);
-      if (index > -1) {
-        console.log(`Removing ${ws.role || 'unknown'} client from room ${roomId}`);
-        connections.splice(index, 1);
-        if (connections.length === 0) {
-          roomConnections.delete(roomId);
-          console.log(`Room ${roomId} deleted - no clients remaining`);
-        } else {
-          console.log(`Room ${roomId} now has ${connections.length} clients`);
-        }
-      }
+  ws.on('close', (code) => {
+    console.log(`WebSocket connection closed for ${ws.role || 'unknown'} client (code ${code})`);
+    if (ws.frameScheduler) {
+      ws.frameScheduler.close();
+    }
+
+    const session = sessions.get(ws.sessionId);
+    // The session already moved to a newer socket; nothing is left to clean up
+    if (session && session.ws !== ws) return;
+
+    if (ws.role === 'phone') {
+      stopServerPeer(ws.peerId);
+    }
+
+    // Abnormal closures (lost network) can be resumed; a deliberate close or a
+    // heartbeat eviction ends the session right away
+    if (session && code === 1006 && ws.leaveReason !== 'timeout') {
+      suspendMember(ws, session);
+    } else {
+      if (session) sessions.end(session);
+      removeMember(ws);
     }
   });
 });
 
+function suspendMember(ws, session) {
+  const reason = ws.leaveReason || 'closed';
+  console.log(`Client ${ws.peerId} dropped (${reason}); holding its session for resume`);
+  notifyCounterparts(ws, { type: 'peer-disconnected', peerId: ws.peerId, role: ws.role, reason });
+
+  sessions.suspend(session, () => {
+    console.log(`Session of ${ws.role} ${ws.peerId} expired`);
+    ws.leaveReason = 'timeout';
+    removeMember(ws);
+  });
+}
+
+function removeMember(ws) {
+  notifyCounterparts(ws, { type: 'peer-left', peerId: ws.peerId, role: ws.role, reason: ws.leaveReason || 'closed' });
+  detectionServer.releaseStream(`viewer:${ws.peerId}`);
+
+  for (let [roomId, connections] of roomConnections) {
+    const index = connections.indexOf(ws);
+    if (index > -1) {
+      console.log(`Removing ${ws.role || 'unknown'} client from room ${roomId}`);
+      connections.splice(index, 1);
+      if (connections.length === 0) {
+        roomConnections.delete(roomId);
+        roomViewerKeys.delete(roomId);
+        pairings.revokeRoom(roomId);
+        console.log(`Room ${roomId} deleted - no clients remaining`);
+      } else {
+        console.log(`Room ${roomId} now has ${connections.length} clients`);
+        if (ws.role === 'phone') {
+          broadcastCameras(roomId);
+        } else if (ws.wantsServerPeer) {
+          maybeStopServerPeer(roomId, ws.cameraId);
+        }
+      }
+    }
+  }
+}
+
+// A reconnecting client takes over its suspended session: same peer ID, same
+// room slot, so its peers' connections (keyed by peer ID) stay valid
+function resumeSession(ws, session) {
+  const previous = sessions.resume(session, ws);
+  for (const key of ['peerId', 'roomId', 'role', 'cameraId', 'wantsServerPeer', 'viewerKey', 'sessionId']) {
+    ws[key] = previous[key];
+  }
+
+  const connections = roomConnections.get(ws.roomId) || [];
+  const index = connections.indexOf(previous);
+  if (index !== -1) {
+    connections[index] = ws;
+  }
+  // The client noticed the drop before the server did
+  if (previous.readyState === WebSocket.OPEN || previous.readyState === WebSocket.CONNECTING) {
+    previous.terminate();
+  }
+
+  ws.send(protocol.encodeServerMessage({
+    type: 'room-joined',
+    version: protocol.PROTOCOL_VERSION,
+    roomId: ws.roomId,
+    peerId: ws.peerId,
+    sessionId: ws.sessionId,
+    resumed: true,
+    viewerKey: ws.role === 'browser' ? ws.viewerKey : undefined
+  }));
+  console.log(`Client ${ws.peerId} resumed its session in room ${ws.roomId} as ${ws.role}`);
+  notifyCounterparts(ws, { type: 'peer-resumed', peerId: ws.peerId, role: ws.role });
+
+  if (ws.role === 'phone') {
+    // The old server peer signaled through the dropped socket; start over
+    stopServerPeer(ws.peerId);
+    maybeStartServerPeer(ws.roomId, ws);
+  } else if (!ws.cameraId) {
+    sendCameras(ws);
+  }
+}
+
+// Server-mode frames sent over the WebSocket; results are pushed back as
+// detection-result messages, dropping frames that queue up behind slow inference
+function handleFrame(ws, message) {
+  // Only viewers watching a camera upload frames; inference is not open to anyone
+  if (!ws.roomId || ws.role !== 'browser' || !ws.cameraId) {
+    sendError(ws, 'not-joined', 'Join a room as a camera viewer before sending frames.', 'frame');
+    return;
+  }
+
+  const recv_ts = Date.now();
+  let frame;
+
+  try {
+    frame = decodeFrameMessage(message);
+  } catch (error) {
+    console.error('Malformed frame message:', error.message);
+    sendError(ws, 'invalid-message', `Malformed frame message: ${error.message}`, 'frame');
+    return;
+  }
+
+  if (!ws.frameScheduler) {
+    ws.frameScheduler = new LatestFrameScheduler(async ({ header, image, recv_ts }) => {
+      const result = await detectionServer.detectObjects(image, {
+        frame_id: header.frame_id,
+        capture_ts: parseInt(header.capture_ts),
+        recv_ts,
+        stream: `viewer:${ws.peerId}`
+      });
+
+      if (ws.readyState === WebSocket.OPEN) {
+        ws.send(protocol.encodeServerMessage({ type: 'detection-result', data: result }));
+      }
+    });
+  }
+
+  ws.frameScheduler.submit({ ...frame, recv_ts });
+}
+
+// 128 random bits, URL-safe, so room IDs cannot be guessed from the QR code of another demo
+function createRoomId() {
+  let roomId;
+  do {
+    roomId = crypto.randomBytes(16).toString('base64url');
+  } while (roomConnections.has(roomId));
+  return roomId;
+}
+
+function isViewerKeyValid(roomId, viewerKey) {
+  const expected = roomViewerKeys.get(roomId);
+  if (!expected || typeof viewerKey !== 'string') return false;
+
+  const given = Buffer.from(viewerKey);
+  const wanted = Buffer.from(expected);
+  return given.length === wanted.length && crypto.timingSafeEqual(given, wanted);
+}
+
+// Structured error reply; `code` lets clients react without parsing the message text
+function sendError(ws, code, message, messageType) {
+  if (ws.readyState === WebSocket.OPEN) {
+    ws.send(protocol.encodeServerMessage({ type: 'error', code, message, messageType }));
+  }
+}
+
+// Too many failures from one address close the connection (PIN guessing); too
+// many against one room (or against all of them, for PINs sent without a room)
+// revoke its PIN, and its viewer issues a new code
+function rejectPairing(ws, message, attempt, messageType) {
+  const { blocked, revokedRooms } = pairings.recordFailure(ws.remoteAddress, attempt);
+  console.log(`Rejected phone pairing from ${ws.remoteAddress}: ${message}`);
+  sendError(ws, 'pairing-rejected', message, messageType);
+
+  for (const roomId of revokedRooms) {
+    console.log(`Revoked the PIN of room ${roomId} after repeated failed attempts`);
+    requestNewPairing(roomId);
+  }
+  if (blocked) {
+    ws.close(1008, 'Too many failed pairing attempts');
+  }
+}
+
+// pairing-used makes the room's viewer issue a fresh code for the next phone
+function requestNewPairing(roomId) {
+  for (const client of roomConnections.get(roomId) || []) {
+    if (client.role === 'browser' && client.readyState === WebSocket.OPEN) {
+      client.send(protocol.encodeServerMessage({ type: 'pairing-used' }));
+    }
+  }
+}
+
+// Only viewers holding the room's key (its creator, or those who joined with
+// the viewer link) may let phones in
+function handleCreatePairing(ws) {
+  if (ws.role !== 'browser' || !roomConnections.has(ws.roomId) || !isViewerKeyValid(ws.roomId, ws.viewerKey)) {
+    sendError(ws, 'not-joined', 'Only a viewer that has joined a room can create pairing codes.', 'create-pairing');
+    return;
+  }
+
+  const { token, pin, expiresAt } = pairings.create(ws.roomId);
+  ws.send(protocol.encodeServerMessage({ type: 'pairing-created', token, pin, expiresAt }));
+}
+
 function handleStartStream(ws, data) {
-  const roomId = 'main-room';
-  
-  if (!roomConnections.has(roomId)) {
-    roomConnections.set(roomId, []);
+  if (data.version !== protocol.PROTOCOL_VERSION) {
+    sendError(ws, 'unsupported-version',
+      `Signaling protocol version ${data.version ?? '(none)'} is not supported (server speaks ${protocol.PROTOCOL_VERSION}). Reload the page.`,
+      data.type);
+    return;
+  }
+
+  if (data.sessionId) {
+    const session = sessions.get(data.sessionId);
+    if (session && session.ws !== ws && session.ws.role === data.role) {
+      resumeSession(ws, session);
+      return;
+    }
+
+    // Phones cannot rejoin without a fresh pairing code; viewers join again as new peers
+    if (data.role === 'phone') {
+      sendError(ws, 'session-expired', 'The connection was lost for too long. Scan the QR code on the dashboard again.', data.type);
+      return;
+    }
+  }
+
+  let roomId = data.roomId;
+
+  if (data.role === 'browser') {
+    // The dashboard rejoins its room after a reconnect, or gets a new one
+    if (!roomId || !roomConnections.has(roomId)) {
+      roomId = createRoomId();
+      roomConnections.set(roomId, []);
+      roomViewerKeys.set(roomId, crypto.randomBytes(16).toString('base64url'));
+      console.log(`Created room ${roomId}`);
+    } else if (!isViewerKeyValid(roomId, data.viewerKey)) {
+      console.log(`Rejected viewer for room ${roomId}: missing or wrong viewer key`);
+      sendError(ws, 'viewer-key-rejected', 'This viewer link is incomplete or no longer valid. Ask for the current link from the dashboard.', data.type);
+      return;
+    }
+  } else {
+    // Phones can only join rooms a dashboard has created, with a pairing code
+    // the dashboard issued; a PIN alone also identifies the room
+    if (roomId && !roomConnections.has(roomId)) {
+      console.log(`Rejected ${data.role} client: unknown room ${roomId}`);
+      sendError(ws, 'room-not-found', 'Room not found. Scan the QR code on the dashboard again.', data.type);
+      return;
+    }
+
+    if (pairings.isBlocked(ws.remoteAddress)) {
+      sendError(ws, 'pairing-rejected', 'Too many failed pairing attempts. Try again in a few minutes.', data.type);
+      ws.close(1008, 'Too many failed pairing attempts');
+      return;
+    }
+
+    const attempt = { roomId, token: data.token, pin: data.pin };
+    let pairing;
+    try {
+      pairing = pairings.redeem(attempt);
+    } catch (error) {
+      rejectPairing(ws, error.message, attempt, data.type);
+      return;
+    }
+
+    roomId = pairing.roomId;
+    if (!roomConnections.has(roomId)) {
+      sendError(ws, 'room-not-found', 'Room not found. Scan the QR code on the dashboard again.', data.type);
+      return;
+    }
+
+    // Let the viewer issue a fresh code for the next phone
+    requestNewPairing(roomId);
   }
   
-  // Remove any existing connections for this role to prevent duplicates
   const connections = roomConnections.get(roomId);
-  const existingIndex = connections.findIndex(client => client.role === data.role);
-  if (existingIndex !== -1) {
-    connections.splice(existingIndex, 1);
-    console.log(`Removed existing ${data.role} client`);
+  if (!connections.includes(ws)) {
+    connections.push(ws);
   }
-  
-  connections.push(ws);
+  const previous = { roomId: ws.roomId, cameraId: ws.cameraId, wantsServerPeer: ws.wantsServerPeer };
   ws.roomId = roomId;
   ws.role = data.role;
+  // A viewer either watches one camera (cameraId = the phone's peer ID) or,
+  // without one, only follows the room: camera list and pairing codes
+  ws.cameraId = data.role === 'browser' && typeof data.cameraId === 'string' ? data.cameraId : null;
+  ws.wantsServerPeer = Boolean(ws.cameraId) && data.serverPeer === true;
+  ws.viewerKey = data.role === 'browser' ? roomViewerKeys.get(roomId) : undefined;
+  // Re-joining on the same socket can drop the request (e.g. another transport)
+  if (previous.wantsServerPeer) {
+    maybeStopServerPeer(previous.roomId, previous.cameraId);
+  }
+  if (ws.sessionId) {
+    sessions.end(sessions.get(ws.sessionId));
+  }
+  ws.sessionId = sessions.create(ws).id;
+  ws.send(protocol.encodeServerMessage({
+    type: 'room-joined',
+    version: protocol.PROTOCOL_VERSION,
+    roomId,
+    peerId: ws.peerId,
+    sessionId: ws.sessionId,
+    resumed: false,
+    viewerKey: ws.viewerKey
+  }));
   
-  console.log(`Client joined room ${roomId} as ${data.role}`);
+  console.log(`Client ${ws.peerId} joined room ${roomId} as ${data.role}${ws.cameraId ? ` watching ${ws.cameraId}` : ''}`);
   console.log(`Total clients in room: ${connections.length}`);
-  
-  // Check for both clients after a brief delay to ensure both are registered
-  setTimeout(() => {
-    const currentConnections = roomConnections.get(roomId) || [];
-    const phoneClient = currentConnections.find(client => client.role === 'phone' && client.readyState === 1);
-    const browserClient = currentConnections.find(client => client.role === 'browser' && client.readyState === 1);
-    
-    console.log(`Phone client: ${phoneClient ? 'connected' : 'not found'}`);
-    console.log(`Browser client: ${browserClient ? 'connected' : 'not found'}`);
-    
-    if (phoneClient && browserClient && phoneClient !== browserClient) {
-      console.log('Both clients connected, initiating WebRTC handshake');
-      // Always send create-offer to browser client
-      console.log('Sending create-offer to browser');
-      browserClient.send(JSON.stringify({ type: 'create-offer' }));
+
+  if (data.role === 'phone') {
+    broadcastCameras(roomId);
+    // A new phone only has a room viewer until the dashboard opens a tile for it
+    maybeStartServerPeer(roomId, ws);
+    return;
+  }
+
+  if (!ws.cameraId) {
+    sendCameras(ws);
+    return;
+  }
+
+  const phoneClient = findPhone(roomId, ws.cameraId);
+  if (!phoneClient) {
+    // A phone waiting to resume: the tile negotiates on peer-resumed
+    console.log(`Camera ${ws.cameraId} not connected in room ${roomId}`);
+    return;
+  }
+
+  // Each camera viewer negotiates its own connection with its phone; both are
+  // registered now, and perfect negotiation copes with however messages interleave
+  console.log(`Sending create-offer to viewer ${ws.peerId}`);
+  ws.send(protocol.encodeServerMessage({ type: 'create-offer', peerId: phoneClient.peerId }));
+
+  maybeStartServerPeer(roomId, phoneClient);
+}
+
+// Server-side WebRTC peer: takes a phone's video directly, runs inference on
+// the decoded frames and pushes detection-result messages to the browsers
+// watching that camera which asked for server-peer inference. There is one per phone, keyed by the phone's peer ID.
+// Its signaling messages are tagged from/to 'server' so the phone can keep them
+// apart from the viewers' connections.
+function maybeStartServerPeer(roomId, phoneClient) {
+  const cameraId = phoneClient.peerId;
+  if (serverPeers.has(cameraId)) return;
+
+  if (!SERVER_PEER_ALWAYS && !findViewers(roomId, cameraId).some(client => client.wantsServerPeer)) return;
+
+  console.log(`Starting server-side WebRTC peer for camera ${cameraId} in room ${roomId}`);
+  let frameCount = 0;
+
+  const scheduler = new LatestFrameScheduler(async ({ image, receivedTs }) => {
+    const result = await detectionServer.detectObjects(image, {
+      frame_id: `server_${cameraId}_${++frameCount}`,
+      capture_ts: receivedTs,
+      recv_ts: receivedTs,
+      stream: `server-peer:${cameraId}`
+    });
+
+    // Viewers running their own inference (WASM or HTTP) must not get these mixed in
+    const message = protocol.encodeServerMessage({ type: 'detection-result', data: result });
+    for (const client of findViewers(roomId, cameraId)) {
+      if (client.wantsServerPeer) client.send(message);
     }
-  }, 100);
+  });
+
+  const peer = new ServerVideoPeer({
+    ffmpegPath: FFMPEG_PATH,
+    iceServers: iceConfig.getConfig('server').iceServers,
+    onFrame: (image, receivedTs) => scheduler.submit({ image, receivedTs }),
+    onIceCandidate: (candidate) => {
+      if (phoneClient.readyState === WebSocket.OPEN) {
+        phoneClient.send(protocol.encodeServerMessage({ type: 'ice-candidate', candidate, from: 'server' }));
+      }
+    },
+    onStateChange: (state) => {
+      console.log(`Server peer for camera ${cameraId}: ${state}`);
+      if (state === 'failed' || state === 'closed') {
+        stopServerPeer(cameraId);
+      }
+    }
+  });
+
+  serverPeers.set(cameraId, { roomId, peer, scheduler });
+
+  peer.createOffer()
+    .then(offer => phoneClient.send(protocol.encodeServerMessage({ type: 'offer', offer, from: 'server' })))
+    .catch(error => {
+      console.error('Server peer failed to create offer:', error);
+      stopServerPeer(cameraId);
+    });
 }
 
-function handleOffer(ws, data) {
-  console.log('Forwarding offer from browser to phone');
-  // Forward offer to phone client
+// Stops decoding and inference for a camera once no viewer asks for them any
+// more; viewers waiting to resume their session still count
+function maybeStopServerPeer(roomId, cameraId) {
+  if (SERVER_PEER_ALWAYS || !serverPeers.has(cameraId)) return;
+
+  const connections = roomConnections.get(roomId) || [];
+  if (!connections.some(client => client.cameraId === cameraId && client.wantsServerPeer)) {
+    stopServerPeer(cameraId);
+  }
+}
+
+function stopServerPeer(cameraId) {
+  const entry = serverPeers.get(cameraId);
+  if (!entry) return;
+
+  serverPeers.delete(cameraId);
+  entry.scheduler.close();
+  detectionServer.releaseStream(`server-peer:${cameraId}`);
+  entry.peer.close().catch(error => console.error('Failed to close server peer:', error));
+
+  // Let the phone drop its end too, as it does for a viewer that left
+  const phoneClient = findPhone(entry.roomId, cameraId);
+  if (phoneClient) {
+    phoneClient.send(protocol.encodeServerMessage({ type: 'peer-left', peerId: 'server', role: 'server' }));
+  }
+  console.log(`Stopped server-side WebRTC peer for camera ${cameraId}`);
+}
+
+function findPeer(roomId, peerId) {
+  const connections = roomConnections.get(roomId) || [];
+  return connections.find(client => client.peerId === peerId && client.readyState === WebSocket.OPEN);
+}
+
+function findPhone(roomId, cameraId) {
+  const phoneClient = findPeer(roomId, cameraId);
+  return phoneClient && phoneClient.role === 'phone' ? phoneClient : undefined;
+}
+
+// Open browsers watching one camera
+function findViewers(roomId, cameraId) {
+  const connections = roomConnections.get(roomId) || [];
+  return connections.filter(client => client.cameraId === cameraId && client.readyState === WebSocket.OPEN);
+}
+
+// Phones in a room, in the order they joined; the dashboard shows one tile each.
+// Phones waiting to resume their session keep their tile.
+function sendCameras(ws) {
   const connections = roomConnections.get(ws.roomId) || [];
-  const phoneClient = connections.find(client => client.role === 'phone');
+  const cameras = connections
+    .filter(client => client.role === 'phone')
+    .map(client => ({ peerId: client.peerId }));
+
+  if (ws.readyState === WebSocket.OPEN) {
+    ws.send(protocol.encodeServerMessage({ type: 'cameras', cameras }));
+  }
+}
+
+function broadcastCameras(roomId) {
+  for (const client of roomConnections.get(roomId) || []) {
+    if (client.role === 'browser' && !client.cameraId) {
+      sendCameras(client);
+    }
+  }
+}
+
+// Presence changes (peer-disconnected, peer-resumed, peer-left) go to the other
+// side of a peer's connections: a phone's viewers, or the phone a viewer watches
+function notifyCounterparts(ws, message) {
+  if (!ws.roomId) return;
+
+  const recipients = ws.role === 'phone'
+    ? findViewers(ws.roomId, ws.peerId)
+    : [findPhone(ws.roomId, ws.cameraId)].filter(Boolean);
+
+  const encoded = protocol.encodeServerMessage(message);
+  for (const client of recipients) {
+    client.send(encoded);
+  }
+}
+
+// Offers, answers and ICE candidates flow both ways between a phone and its
+// viewers: phones address them with `to`, a viewer's always go to the phone it
+// watches. Both sides may offer (perfect negotiation), so none of this depends
+// on who joined first.
+function findCounterpart(ws, to) {
+  return ws.role === 'phone' ? findPeer(ws.roomId, to) : findPhone(ws.roomId, ws.cameraId);
+}
+
+function handleOffer(ws, data) {
+  if (ws.role === 'phone' && data.to === 'server') {
+    // The server peer only ever offers; it cannot renegotiate from the phone's side
+    console.log(`Ignoring offer from phone ${ws.peerId} to the server peer`);
+    return;
+  }
+
+  const target = findCounterpart(ws, data.to);
   
-  if (phoneClient) {
-    console.log('Sending offer to phone client');
-    phoneClient.send(JSON.stringify({
+  if (target) {
+    console.log(`Forwarding offer from ${ws.role} ${ws.peerId} to ${target.role} ${target.peerId}`);
+    target.send(protocol.encodeServerMessage({
       type: 'offer',
-      offer: data.offer
+      offer: data.offer,
+      iceRestart: data.iceRestart === true,
+      from: ws.peerId
     }));
   } else {
-    console.log('No phone client found to send offer to');
+    console.log(`No peer found to forward offer from ${ws.role} ${ws.peerId} to`);
   }
 }
 
+// `to: 'server'` answers the server-side peer's offer
 function handleAnswer(ws, data) {
-  console.log('Forwarding answer from phone to browser');
-  // Forward answer to browser client
-  const connections = roomConnections.get(ws.roomId) || [];
-  const browserClient = connections.find(client => client.role === 'browser');
+  if (ws.role === 'phone' && data.to === 'server') {
+    const entry = serverPeers.get(ws.peerId);
+    if (entry) {
+      entry.peer.setAnswer(data.answer).catch(error => console.error('Server peer rejected answer:', error));
+    }
+    return;
+  }
+
+  const target = findCounterpart(ws, data.to);
   
-  if (browserClient) {
-    console.log('Sending answer to browser client');
-    browserClient.send(JSON.stringify({
+  if (target) {
+    console.log(`Forwarding answer from ${ws.role} ${ws.peerId} to ${target.role} ${target.peerId}`);
+    target.send(protocol.encodeServerMessage({
       type: 'answer',
-      answer: data.answer
+      answer: data.answer,
+      from: ws.peerId
     }));
   } else {
-    console.log('No browser client found to send answer to');
+    console.log(`No peer found to forward answer from ${ws.role} ${ws.peerId} to`);
   }
 }
 
+// `to: 'server'` goes to the server-side peer
 function handleIceCandidate(ws, data) {
-  console.log(`Forwarding ICE candidate from ${ws.role}`);
-  // Forward ICE candidate to the other peer
-  const connections = roomConnections.get(ws.roomId) || [];
-  const otherClient = connections.find(client => client !== ws && client.readyState === 1);
+  if (data.to === 'server') {
+    const entry = serverPeers.get(ws.peerId);
+    if (entry && data.candidate) {
+      entry.peer.addIceCandidate(data.candidate).catch(error => console.error('Server peer rejected ICE candidate:', error));
+    }
+    return;
+  }
+
+  const target = findCounterpart(ws, data.to);
   
-  if (otherClient) {
-    console.log(`Sending ICE candidate to ${otherClient.role}`);
-    otherClient.send(JSON.stringify({
+  if (target) {
+    target.send(protocol.encodeServerMessage({
       type: 'ice-candidate',
-      candidate: data.candidate
+      candidate: data.candidate,
+      from: ws.peerId
     }));
   } else {
-    console.log('No other client found to forward ICE candidate to');
+    console.log(`No peer found to forward ICE candidate from ${ws.role} ${ws.peerId} to`);
   }
 }
 
-// REST API for object detection
-app.post('/api/detect', upload.single('image'), async (req, res) => {
+// REST API for object detection. Frames arrive in one of three shapes:
+// - multipart/form-data: an `image` file plus `frame_id` / `capture_ts` fields
+// - application/octet-stream (or image/jpeg, image/webp): the raw encoded frame,
+//   with metadata in the X-Frame-Id / X-Capture-Ts headers
+// - application/json: { image: <base64 data URL>, frame_id, capture_ts } (legacy fallback)
+const rawFrame = express.raw({
+  type: ['application/octet-stream', 'image/jpeg', 'image/webp'],
+  limit: '10mb'
+});
+
+function readDetectRequest(req) {
+  if (req.file) {
+    return { image: req.file.buffer, frame_id: req.body.frame_id, capture_ts: req.body.capture_ts, camera_id: req.body.camera_id };
+  }
+  if (Buffer.isBuffer(req.body)) {
+    return { image: req.body, frame_id: req.get('X-Frame-Id'), capture_ts: req.get('X-Capture-Ts'), camera_id: req.get('X-Camera-Id') };
+  }
+  return { image: req.body.image, frame_id: req.body.frame_id, capture_ts: req.body.capture_ts, camera_id: req.body.camera_id };
+}
+
+app.post('/api/detect', upload.single('image'), rawFrame, async (req, res) => {
   try {
-    const { image, capture_ts, frame_id } = req.body;
+    const { image, capture_ts, frame_id, camera_id } = readDetectRequest(req);
     const recv_ts = Date.now();
     
-    if (!image) {
+    if (!image || image.length === 0) {
       return res.status(400).json({ error: 'No image provided' });
     }
     
@@ -192,7 +755,8 @@ app.post('/api/detect', upload.single('image'), async (req, res) => {
     const detections = await detectionServer.detectObjects(image, {
       frame_id,
       capture_ts: parseInt(capture_ts),
-      recv_ts
+      recv_ts,
+      stream: `http:${camera_id || 'unknown'}`
     });
     
     res.json(detections);
@@ -202,13 +766,21 @@ app.post('/api/detect', upload.single('image'), async (req, res) => {
   }
 });
 
+// ICE servers for the pages' RTCPeerConnections, fetched before each one is
+// created; TURN credentials in it are time-limited, so it must not be cached
+app.get('/api/ice-config', (req, res) => {
+  res.set('Cache-Control', 'no-store');
+  res.json(iceConfig.getConfig());
+});
+
 // Health check endpoint for Docker
 app.get('/health', (req, res) => {
   res.status(200).json({ 
     status: 'healthy', 
     timestamp: new Date().toISOString(),
     uptime: process.uptime(),
-    websocket: wss.clients.size + ' clients connected'
+    websocket: wss.clients.size + ' clients connected',
+    detection: detectionServer.getStats()
   });
 });
 
@@ -253,9 +825,17 @@ app.get('*', (req, res) => {
 });
 
 const PORT = process.env.PORT || 3002;
-server.listen(PORT, '0.0.0.0', () => {
-  console.log(`Server running on port ${PORT}`);
-  console.log(`WebSocket server ready`);
-});
+import('../shared/signalingProtocol.mjs')
+  .then((module) => {
+    protocol = module;
+    server.listen(PORT, '0.0.0.0', () => {
+      console.log(`Server running on port ${PORT}`);
+      console.log(`WebSocket server ready (signaling protocol v${protocol.PROTOCOL_VERSION})`);
+    });
+  })
+  .catch((error) => {
+    console.error('Failed to load the signaling protocol:', error);
+    process.exit(1);
+  });
 
 module.exports = { app, server };
\ No newline at end of file
@@ -1,32 +1,96 @@
-const { spawn } = require('child_process');
 const path = require('path');
 const fs = require('fs').promises;
 const sharp = require('sharp');
+const { OnnxDetector } = require('./onnxDetector');
+const { PythonWorkerPool } = require('./pythonWorkerPool');
 
 class ObjectDetectionServer {
-  constructor() {
+  // options.mock = { seed, scenarioPath } forces the deterministic mock backend;
+  // options.modelId / options.modelsDir select the ONNX model (see public/models);
+  // options.python = { scriptPath, ...PythonWorkerPool options } configures detect.py workers
+  constructor(options = {}) {
     this.isInitialized = false;
-    this.pythonProcess = null;
+    this.initPromise = null;
+    this.pythonOptions = options.python || {};
+    this.pythonPool = null;
     this.modelLoaded = false;
+    this.onnxDetector = new OnnxDetector({ modelId: options.modelId, modelsDir: options.modelsDir });
+    this.onnxLoaded = false;
+    this.mockOptions = options.mock || null;
+    // stream key -> MockDetector, created on a stream's first frame
+    this.mockStreams = new Map();
+    this.createMockDetector = null;
   }
 
-  async initialize() {
-    if (this.isInitialized) return;
+  // Frames arriving while the backend loads share one initialization, so the
+  // ONNX session and the Python pool are only ever created once
+  initialize() {
+    if (!this.initPromise) {
+      this.initPromise = this.loadBackend().catch((error) => {
+        this.initPromise = null;
+        throw error;
+      });
+    }
+    return this.initPromise;
+  }
+
+  async loadBackend() {
+    if (this.mockOptions) {
+      // The WASM mock's detector (an ES module, hence the import), so a stream
+      // gets the same sequence for a seed or scenario in either mode
+      const { MockDetector, validateMockScenario } = await import('../shared/mockScenario.mjs');
+      let scenario;
+
+      if (this.mockOptions.scenarioPath) {
+        scenario = validateMockScenario(JSON.parse(await fs.readFile(this.mockOptions.scenarioPath, 'utf8')));
+        console.log(`Replaying mock scenario '${scenario.name || this.mockOptions.scenarioPath}'`);
+      } else {
+        console.log(`Using seeded mock detection (seed ${this.mockOptions.seed})`);
+      }
+      this.createMockDetector = () => new MockDetector({ seed: this.mockOptions.seed, scenario });
+      this.isInitialized = true;
+      return;
+    }
+
+    try {
+      // Prefer running the shared ONNX model in-process
+      await this.onnxDetector.load();
+      this.onnxLoaded = true;
+    } catch (error) {
+      console.log('ONNX model unavailable for server inference:', error.message);
+    }
+
+    if (!this.onnxLoaded) {
+      await this.startPythonWorkers();
+    }
+    
+    this.isInitialized = true;
+  }
+
+  async startPythonWorkers() {
+    const { scriptPath = path.join(__dirname, 'detect.py'), ...poolOptions } = this.pythonOptions;
 
     try {
       // Check if Python detection script exists
-      const scriptPath = path.join(__dirname, 'detect.py');
       await fs.access(scriptPath);
-      
-      console.log('Object detection server initialized with Python script');
-      this.modelLoaded = true;
     } catch (error) {
       console.log('Python detection script not found, using enhanced mock detection');
+      return;
+    }
+
+    try {
+      this.pythonPool = new PythonWorkerPool(scriptPath, poolOptions);
+      await this.pythonPool.start();
+      this.modelLoaded = true;
+      console.log(`Object detection server initialized with Python workers (${scriptPath})`);
+    } catch (error) {
+      console.log('Python workers failed to start, using enhanced mock detection:', error.message);
+      this.pythonPool = null;
     }
-    
-    this.isInitialized = true;
   }
 
+  // metadata.stream names the video stream the frame belongs to (a connection
+  // or camera); only the mock backend keeps per-stream state
   async detectObjects(imageData, metadata) {
     if (!this.isInitialized) {
       await this.initialize();
@@ -37,9 +101,15 @@ class ObjectDetectionServer {
     try {
       let detections;
       
-      if (this.modelLoaded) {
+      if (this.createMockDetector) {
+        // Seeded or scripted detections for reproducible QA runs
+        detections = this.mockDetectorFor(metadata.stream).next();
+      } else if (this.onnxLoaded) {
+        // Real inference with onnxruntime-node
+        detections = await this.onnxDetector.detect(this.decodeImage(imageData));
+      } else if (this.modelLoaded) {
         // Use Python script for real inference
-        detections = await this.runPythonInference(imageData);
+        detections = await this.runPythonInference(imageData, metadata);
       } else {
         // Enhanced mock detection with image processing
         detections = await this.processImageAndDetect(imageData);
@@ -64,11 +134,31 @@ class ObjectDetectionServer {
     }
   }
 
+  mockDetectorFor(stream = 'default') {
+    let detector = this.mockStreams.get(stream);
+    if (!detector) {
+      detector = this.createMockDetector();
+      this.mockStreams.set(stream, detector);
+    }
+    return detector;
+  }
+
+  // Drops a finished stream's mock state, so a new stream with the same key starts over
+  releaseStream(stream) {
+    this.mockStreams.delete(stream);
+  }
+
+  // Accepts encoded image bytes, a base64 data URL or a bare base64 string and
+  // returns the encoded image bytes
+  decodeImage(imageData) {
+    if (Buffer.isBuffer(imageData)) return imageData;
+    const base64Data = imageData.replace(/^data:image\/[a-z]+;base64,/, '');
+    return Buffer.from(base64Data, 'base64');
+  }
+
   async processImageAndDetect(imageData) {
     try {
-      // Process base64 image data
-      const base64Data = imageData.replace(/^data:image\/[a-z]+;base64,/, '');
-      const buffer = Buffer.from(base64Data, 'base64');
+      const buffer = this.decodeImage(imageData);
       
       // Use sharp to get image dimensions for better mock detection
       const metadata = await sharp(buffer).metadata();
@@ -82,10 +172,18 @@ class ObjectDetectionServer {
     }
   }
 
-  async runPythonInference(imageData) {
-    // This would run actual Python inference script
-    // For now, return enhanced mock data
-    return this.generateMockDetections();
+  async runPythonInference(imageData, metadata) {
+    return this.pythonPool.detect(this.decodeImage(imageData), {
+      frame_id: metadata.frame_id,
+      capture_ts: metadata.capture_ts
+    });
+  }
+
+  getStats() {
+    return {
+      backend: this.onnxLoaded ? 'onnx' : this.modelLoaded ? 'python' : 'mock',
+      python: this.pythonPool ? this.pythonPool.getStats() : null
+    };
   }
 
   generateEnhancedMockDetections(width = 640, height = 480) {
@@ -145,9 +243,13 @@ class ObjectDetectionServer {
   }
 
   cleanup() {
-    if (this.pythonProcess) {
-      this.pythonProcess.kill();
-      this.pythonProcess = null;
+    this.onnxDetector.cleanup().catch(error => console.error('Failed to release ONNX session:', error));
+    this.onnxLoaded = false;
+
+    if (this.pythonPool) {
+      this.pythonPool.stop();
+      this.pythonPool = null;
+      this.modelLoaded = false;
     }
   }
 }
@@ -0,0 +1,148 @@
+const path = require('path');
+const fs = require('fs').promises;
+const sharp = require('sharp');
+
+const DEFAULT_MODELS_DIR = path.join(__dirname, '../public/models');
+
+async function readJson(filePath) {
+  return JSON.parse(await fs.readFile(filePath, 'utf8'));
+}
+
+// Manifest defaults and validation are shared with src/lib/modelRegistry.ts.
+// They are ES modules, so they are imported rather than required.
+async function loadModelManifest(modelsDir, modelId) {
+  const { normalizeManifest, normalizeModelRegistry } = await import('../shared/modelManifest.mjs');
+
+  const id = modelId || normalizeModelRegistry(await readJson(path.join(modelsDir, 'registry.json'))).default;
+  const manifestPath = path.join(modelsDir, id, 'model.json');
+  const manifest = normalizeManifest(id, await readJson(manifestPath));
+
+  return {
+    ...manifest,
+    modelPath: path.join(path.dirname(manifestPath), manifest.model)
+  };
+}
+
+/**
+ * Runs the same ONNX models as the WASM client through onnxruntime-node on
+ * CPU. Frames are decoded and resized with sharp, then normalized into the
+ * tensor layout the model manifest declares.
+ */
+class OnnxDetector {
+  constructor(options = {}) {
+    this.modelsDir = options.modelsDir || DEFAULT_MODELS_DIR;
+    this.modelId = options.modelId;
+    this.session = null;
+    this.ort = null;
+    this.manifest = null;
+    this.decoders = null;
+  }
+
+  async load() {
+    // Required lazily so the server still starts (with mock detection) when
+    // the native runtime is not installed
+    this.ort = require('onnxruntime-node');
+    // The same output decoding as the WASM engine, so both modes agree
+    this.decoders = await import('../shared/detectionDecoders.mjs');
+    this.manifest = await loadModelManifest(this.modelsDir, this.modelId);
+
+    console.log(`Loading detection model '${this.manifest.id}' from ${this.manifest.modelPath}`);
+    this.session = await this.ort.InferenceSession.create(this.manifest.modelPath, {
+      executionProviders: ['cpu'],
+      graphOptimizationLevel: 'all'
+    });
+    console.log('ONNX model loaded successfully (onnxruntime-node)');
+  }
+
+  async detect(imageBuffer) {
+    const { width, height, layout } = this.manifest.input;
+    const { input, transform } = await this.preprocess(imageBuffer);
+    const dims = layout === 'NCHW' ? [1, 3, height, width] : [1, height, width, 3];
+    const tensor = new this.ort.Tensor('float32', input, dims);
+
+    const results = await this.session.run({ [this.session.inputNames[0]]: tensor });
+    const { decodeModelOutputs, unprojectDetection } = this.decoders;
+    return decodeModelOutputs(Object.values(results), this.manifest)
+      .map(detection => unprojectDetection(detection, transform));
+  }
+
+  async preprocess(imageBuffer) {
+    const { width: targetWidth, height: targetHeight, layout, mean, std, resize, padValue } = this.manifest.input;
+
+    // Dimensions as displayed, i.e. after applying EXIF orientation
+    const metadata = await sharp(imageBuffer).metadata();
+    const swapped = (metadata.orientation || 1) >= 5;
+    const sourceWidth = swapped ? metadata.height : metadata.width;
+    const sourceHeight = swapped ? metadata.width : metadata.height;
+
+    let pipeline = sharp(imageBuffer).rotate().removeAlpha();
+    let transform;
+
+    if (resize === 'letterbox') {
+      const scale = Math.min(targetWidth / sourceWidth, targetHeight / sourceHeight);
+      const scaledWidth = Math.max(1, Math.round(sourceWidth * scale));
+      const scaledHeight = Math.max(1, Math.round(sourceHeight * scale));
+      const padX = Math.floor((targetWidth - scaledWidth) / 2);
+      const padY = Math.floor((targetHeight - scaledHeight) / 2);
+
+      pipeline = pipeline
+        .resize(scaledWidth, scaledHeight, { fit: 'fill', kernel: 'linear' })
+        .extend({
+          left: padX,
+          right: targetWidth - scaledWidth - padX,
+          top: padY,
+          bottom: targetHeight - scaledHeight - padY,
+          background: { r: padValue, g: padValue, b: padValue }
+        });
+      transform = {
+        sourceWidth,
+        sourceHeight,
+        inputWidth: targetWidth,
+        inputHeight: targetHeight,
+        scaleX: scaledWidth / sourceWidth,
+        scaleY: scaledHeight / sourceHeight,
+        padX,
+        padY
+      };
+    } else {
+      pipeline = pipeline.resize(targetWidth, targetHeight, { fit: 'fill', kernel: 'linear' });
+      transform = {
+        sourceWidth,
+        sourceHeight,
+        inputWidth: targetWidth,
+        inputHeight: targetHeight,
+        scaleX: targetWidth / sourceWidth,
+        scaleY: targetHeight / sourceHeight,
+        padX: 0,
+        padY: 0
+      };
+    }
+
+    const { data } = await pipeline.raw().toBuffer({ resolveWithObject: true });
+    const planeSize = targetWidth * targetHeight;
+    const input = new Float32Array(3 * planeSize);
+
+    // sharp yields interleaved RGB (HWC); normalize into the declared layout
+    for (let i = 0; i < planeSize; i++) {
+      for (let c = 0; c < 3; c++) {
+        const value = (data[i * 3 + c] / 255.0 - mean[c]) / std[c];
+        if (layout === 'NCHW') {
+          input[c * planeSize + i] = value;
+        } else {
+          input[i * 3 + c] = value;
+        }
+      }
+    }
+
+    return { input, transform };
+  }
+
+  async cleanup() {
+    if (this.session) {
+      await this.session.release();
+      this.session = null;
+    }
+  }
+}
+
+module.exports = { OnnxDetector, loadModelManifest };
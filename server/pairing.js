@@ -0,0 +1,172 @@
+const crypto = require('crypto');
+
+const DEFAULT_PAIRING_OPTIONS = {
+  // How long a token/PIN stays valid after the viewer creates it
+  ttlMs: 5 * 60 * 1000,
+  pinDigits: 6,
+  // Failed attempts allowed per client address, and per room, within one TTL
+  maxFailures: 5
+};
+
+/**
+ * Single-use pairing codes that let a phone into a viewer's room. Each pairing
+ * has an unguessable token (embedded in the QR code) and a short PIN that can
+ * be typed in instead; redeeming either one consumes both. Redeemed and
+ * expired pairings are remembered for one more TTL so a second attempt gets a
+ * precise error instead of "invalid".
+ *
+ * Failed attempts are counted per client address and per room rather than per
+ * connection, so reconnecting does not buy more PIN guesses: an address that
+ * runs out is blocked for one TTL, and a room that runs out loses its PIN
+ * (the QR code's token keeps working). A PIN sent without a room is checked
+ * against every room's pending PIN, so its failure counts against all of them;
+ * guesses spread over many addresses then cost every room as much as guesses
+ * aimed at it directly.
+ */
+class PairingRegistry {
+  constructor(options = {}) {
+    this.options = { ...DEFAULT_PAIRING_OPTIONS, ...options };
+    this.byToken = new Map();
+    this.byPin = new Map();
+    // 'address:<ip>' / 'room:<id>' -> { count, resetAt }
+    this.failures = new Map();
+  }
+
+  create(roomId) {
+    this.prune();
+
+    const pairing = {
+      roomId,
+      token: crypto.randomBytes(16).toString('base64url'),
+      pin: this.createPin(),
+      expiresAt: Date.now() + this.options.ttlMs,
+      used: false
+    };
+
+    this.byToken.set(pairing.token, pairing);
+    this.byPin.set(pairing.pin, pairing);
+    return pairing;
+  }
+
+  // Returns the pairing for a { token } or { pin } credential, marking it used,
+  // or throws an Error whose message can be shown to the phone user
+  redeem({ roomId, token, pin }) {
+    this.prune();
+
+    if (!token && !pin) {
+      throw new Error('A pairing code is required. Scan the QR code on the dashboard or enter its PIN.');
+    }
+
+    const pairing = token ? this.byToken.get(token) : this.byPin.get(String(pin));
+    if (!pairing || (roomId && pairing.roomId !== roomId)) {
+      throw new Error(token
+        ? 'This pairing code is not valid. Scan the QR code currently shown on the dashboard.'
+        : 'Incorrect PIN. Check the PIN shown on the dashboard.');
+    }
+    if (pairing.used) {
+      throw new Error('This pairing code has already been used. Ask the viewer for a new QR code or PIN.');
+    }
+    if (Date.now() > pairing.expiresAt) {
+      throw new Error('This pairing code has expired. Scan the new QR code on the dashboard.');
+    }
+
+    pairing.used = true;
+    this.byPin.delete(pairing.pin);
+    return pairing;
+  }
+
+  // True while `address` has used up its failed attempts
+  isBlocked(address) {
+    this.prune();
+    const entry = this.failures.get(`address:${address}`);
+    return Boolean(entry && entry.count >= this.options.maxFailures);
+  }
+
+  // Counts a failed redeem against the client's address and the room it named,
+  // or every room with a pending PIN for a PIN sent without one. Returns
+  // whether the address is now blocked and the rooms whose PINs were just
+  // revoked (their viewers should issue new codes).
+  recordFailure(address, { roomId, pin }) {
+    this.prune();
+    const blocked = this.countFailure(`address:${address}`) >= this.options.maxFailures;
+
+    let targetRooms = [];
+    if (roomId) {
+      targetRooms = [roomId];
+    } else if (pin) {
+      targetRooms = [...new Set(Array.from(this.byPin.values(), pairing => pairing.roomId))];
+    }
+
+    const revokedRooms = [];
+    for (const room of targetRooms) {
+      if (this.countFailure(`room:${room}`) >= this.options.maxFailures) {
+        this.failures.delete(`room:${room}`);
+        if (this.revokePins(room)) revokedRooms.push(room);
+      }
+    }
+
+    return { blocked, revokedRooms };
+  }
+
+  countFailure(key) {
+    let entry = this.failures.get(key);
+    if (!entry) {
+      entry = { count: 0, resetAt: Date.now() + this.options.ttlMs };
+      this.failures.set(key, entry);
+    }
+    return ++entry.count;
+  }
+
+  // Makes a room's pending PINs unusable; returns whether it had any
+  revokePins(roomId) {
+    let revoked = false;
+    for (const [pin, pairing] of this.byPin) {
+      if (pairing.roomId === roomId) {
+        this.byPin.delete(pin);
+        revoked = true;
+      }
+    }
+    return revoked;
+  }
+
+  // Drops pending pairings of a room, e.g. when its viewer leaves
+  revokeRoom(roomId) {
+    for (const pairing of this.byToken.values()) {
+      if (pairing.roomId === roomId && !pairing.used) {
+        pairing.used = true;
+        this.byPin.delete(pairing.pin);
+      }
+    }
+  }
+
+  createPin() {
+    const max = 10 ** this.options.pinDigits;
+    let pin;
+    do {
+      pin = String(crypto.randomInt(max)).padStart(this.options.pinDigits, '0');
+    } while (this.byPin.has(pin));
+    return pin;
+  }
+
+  prune() {
+    const now = Date.now();
+    for (const [key, entry] of this.failures) {
+      if (now > entry.resetAt) {
+        this.failures.delete(key);
+      }
+    }
+    for (const [token, pairing] of this.byToken) {
+      if (now > pairing.expiresAt) {
+        // Expired PINs are freed right away; tokens are kept to report "expired"
+        if (this.byPin.get(pairing.pin) === pairing) {
+          this.byPin.delete(pairing.pin);
+        }
+        if (now > pairing.expiresAt + this.options.ttlMs) {
+          this.byToken.delete(token);
+        }
+      }
+    }
+  }
+}
+
+module.exports = { PairingRegistry };
@@ -0,0 +1,312 @@
+const { spawn } = require('child_process');
+
+// Framed stdin/stdout protocol shared with the Python workers (see detect.example.py).
+// Every message in either direction is
+//   [uint32 BE header length][uint32 BE body length][header JSON][body bytes]
+// Requests carry { id, type: 'detect', ... } plus the encoded image as the body;
+// workers answer { id, detections } or { id, error } with an empty body, and
+// announce themselves with { type: 'ready' } once their model is loaded.
+const FRAME_PREFIX_BYTES = 8;
+
+function encodeFrame(header, body = Buffer.alloc(0)) {
+  const headerBytes = Buffer.from(JSON.stringify(header), 'utf8');
+  const prefix = Buffer.alloc(FRAME_PREFIX_BYTES);
+  prefix.writeUInt32BE(headerBytes.length, 0);
+  prefix.writeUInt32BE(body.length, 4);
+  return Buffer.concat([prefix, headerBytes, body]);
+}
+
+// Incrementally splits a byte stream into frames
+class FrameDecoder {
+  constructor(onFrame) {
+    this.onFrame = onFrame;
+    this.buffer = Buffer.alloc(0);
+  }
+
+  push(chunk) {
+    this.buffer = this.buffer.length > 0 ? Buffer.concat([this.buffer, chunk]) : chunk;
+
+    while (this.buffer.length >= FRAME_PREFIX_BYTES) {
+      const headerLength = this.buffer.readUInt32BE(0);
+      const bodyLength = this.buffer.readUInt32BE(4);
+      const frameLength = FRAME_PREFIX_BYTES + headerLength + bodyLength;
+      if (this.buffer.length < frameLength) break;
+
+      const headerEnd = FRAME_PREFIX_BYTES + headerLength;
+      const header = JSON.parse(this.buffer.subarray(FRAME_PREFIX_BYTES, headerEnd).toString('utf8'));
+      const body = this.buffer.subarray(headerEnd, frameLength);
+      this.buffer = this.buffer.subarray(frameLength);
+      this.onFrame(header, body);
+    }
+  }
+}
+
+const DEFAULT_POOL_OPTIONS = {
+  pythonPath: 'python3',
+  size: 2,
+  // Requests waiting for a free worker beyond this are rejected immediately
+  maxQueueDepth: 8,
+  // Counted from when a request is queued, so it also bounds the wait for a worker
+  requestTimeoutMs: 5000,
+  startupTimeoutMs: 30000,
+  // Crashed workers are restarted after this delay, doubling up to the maximum
+  restartDelayMs: 1000,
+  maxRestartDelayMs: 30000
+};
+
+/**
+ * Pool of long-lived Python detector processes. Requests are queued and
+ * handed to the first idle worker; a worker that crashes or exceeds the
+ * request timeout is killed and restarted with exponential backoff, and its
+ * in-flight request is rejected so the caller can fall back.
+ */
+class PythonWorkerPool {
+  constructor(scriptPath, options = {}) {
+    this.scriptPath = scriptPath;
+    this.options = { ...DEFAULT_POOL_OPTIONS, ...options };
+    this.workers = [];
+    this.queue = [];
+    this.nextRequestId = 1;
+    this.restarts = 0;
+    this.timeouts = 0;
+    this.stopped = false;
+  }
+
+  // Resolves once at least one worker has loaded its model
+  start() {
+    this.stopped = false;
+
+    return new Promise((resolve, reject) => {
+      let settled = false;
+      let failures = 0;
+
+      const timer = setTimeout(() => {
+        settle(new Error(`No Python worker became ready within ${this.options.startupTimeoutMs}ms`));
+      }, this.options.startupTimeoutMs);
+
+      const settle = (error) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timer);
+        if (error) {
+          this.stop();
+          reject(error);
+        } else {
+          resolve();
+        }
+      };
+
+      for (let i = 0; i < this.options.size; i++) {
+        this.workers.push(this.spawnWorker(i, {
+          onReady: () => settle(),
+          onStartupFailure: (error) => {
+            if (++failures === this.options.size) settle(error);
+          }
+        }));
+      }
+    });
+  }
+
+  detect(image, metadata = {}) {
+    if (this.stopped) {
+      return Promise.reject(new Error('Python worker pool is stopped'));
+    }
+    if (this.queue.length >= this.options.maxQueueDepth) {
+      return Promise.reject(new Error(`Python worker queue is full (${this.queue.length} waiting)`));
+    }
+
+    return new Promise((resolve, reject) => {
+      const request = {
+        id: this.nextRequestId++,
+        image,
+        metadata,
+        resolve,
+        reject,
+        deadline: Date.now() + this.options.requestTimeoutMs,
+        queueTimer: null
+      };
+      // While every worker is down or backing off nothing dispatches, so the
+      // queue enforces the deadline itself
+      request.queueTimer = setTimeout(() => this.expireQueued(request), this.options.requestTimeoutMs);
+      this.queue.push(request);
+      this.dispatch();
+    });
+  }
+
+  getStats() {
+    return {
+      workers: this.workers.length,
+      ready: this.workers.filter(worker => worker.ready).length,
+      busy: this.workers.filter(worker => worker.current).length,
+      queueDepth: this.queue.length,
+      restarts: this.restarts,
+      timeouts: this.timeouts
+    };
+  }
+
+  stop() {
+    this.stopped = true;
+
+    for (const request of this.queue) {
+      clearTimeout(request.queueTimer);
+      request.reject(new Error('Python worker pool is stopped'));
+    }
+    this.queue = [];
+
+    for (const worker of this.workers) {
+      clearTimeout(worker.restartTimer);
+      this.failRequest(worker, new Error('Python worker pool is stopped'));
+      if (worker.process) {
+        worker.process.kill();
+      }
+    }
+    this.workers = [];
+  }
+
+  spawnWorker(index, hooks = {}) {
+    const worker = {
+      index,
+      process: null,
+      ready: false,
+      current: null,
+      timer: null,
+      restartTimer: null,
+      restartDelay: this.options.restartDelayMs
+    };
+    this.launch(worker, hooks);
+    return worker;
+  }
+
+  launch(worker, hooks = {}) {
+    const child = spawn(this.options.pythonPath, [this.scriptPath], { stdio: ['pipe', 'pipe', 'pipe'] });
+    worker.process = child;
+    worker.ready = false;
+
+    const decoder = new FrameDecoder((header) => this.handleMessage(worker, header, hooks));
+
+    child.stdout.on('data', (chunk) => {
+      try {
+        decoder.push(chunk);
+      } catch (error) {
+        console.error(`Python worker ${worker.index} sent a malformed frame:`, error.message);
+        child.kill();
+      }
+    });
+
+    child.stderr.on('data', (chunk) => {
+      process.stderr.write(`[python worker ${worker.index}] ${chunk}`);
+    });
+
+    // Writing to a worker that just died must not take the server down; the
+    // exit handler deals with the failed request
+    child.stdin.on('error', () => {});
+
+    // 'error' covers spawn failures (e.g. no Python interpreter), which never emit 'exit'
+    child.on('error', (error) => this.handleExit(worker, child, error.message, hooks));
+    child.on('exit', (code, signal) => this.handleExit(worker, child, signal || `code ${code}`, hooks));
+  }
+
+  handleExit(worker, child, reason, hooks) {
+    if (worker.process !== child) return;
+
+    const wasReady = worker.ready;
+    worker.process = null;
+    worker.ready = false;
+    this.failRequest(worker, new Error(`Python worker exited (${reason})`));
+
+    if (!wasReady && hooks.onStartupFailure) {
+      hooks.onStartupFailure(new Error(`Python worker failed during startup (${reason})`));
+    }
+
+    if (!this.stopped) {
+      console.log(`Python worker ${worker.index} exited (${reason}); restarting in ${worker.restartDelay}ms`);
+      worker.restartTimer = setTimeout(() => {
+        this.restarts++;
+        this.launch(worker);
+      }, worker.restartDelay);
+      worker.restartDelay = Math.min(worker.restartDelay * 2, this.options.maxRestartDelayMs);
+    }
+  }
+
+  handleMessage(worker, header, hooks) {
+    if (header.type === 'ready') {
+      worker.ready = true;
+      worker.restartDelay = this.options.restartDelayMs;
+      if (hooks.onReady) hooks.onReady();
+      this.dispatch();
+      return;
+    }
+
+    const request = worker.current;
+    if (!request || header.id !== request.id) {
+      // Late answer to a request that already timed out
+      return;
+    }
+
+    clearTimeout(worker.timer);
+    worker.current = null;
+
+    if (header.error) {
+      request.reject(new Error(`Python worker error: ${header.error}`));
+    } else {
+      request.resolve(header.detections || []);
+    }
+
+    this.dispatch();
+  }
+
+  dispatch() {
+    for (const worker of this.workers) {
+      if (this.queue.length === 0) return;
+      if (!worker.ready || worker.current) continue;
+
+      const request = this.takeNextRequest();
+      if (!request) return;
+
+      const remainingMs = request.deadline - Date.now();
+      worker.current = request;
+      worker.timer = setTimeout(() => {
+        this.timeouts++;
+        this.failRequest(worker, new Error(`Python worker timed out after ${this.options.requestTimeoutMs}ms`));
+        // A stuck worker cannot be trusted with the next frame
+        worker.process.kill();
+      }, remainingMs);
+
+      worker.process.stdin.write(encodeFrame({ id: request.id, type: 'detect', ...request.metadata }, request.image));
+    }
+  }
+
+  // Oldest queued request still within its deadline; expired ones are rejected
+  takeNextRequest() {
+    while (this.queue.length > 0) {
+      const request = this.queue.shift();
+      clearTimeout(request.queueTimer);
+      if (request.deadline > Date.now()) return request;
+      this.rejectExpired(request);
+    }
+    return null;
+  }
+
+  expireQueued(request) {
+    const index = this.queue.indexOf(request);
+    if (index === -1) return;
+
+    this.queue.splice(index, 1);
+    this.rejectExpired(request);
+  }
+
+  rejectExpired(request) {
+    this.timeouts++;
+    request.reject(new Error(`Python worker request timed out after ${this.options.requestTimeoutMs}ms waiting for a free worker`));
+  }
+
+  failRequest(worker, error) {
+    clearTimeout(worker.timer);
+    if (worker.current) {
+      worker.current.reject(error);
+      worker.current = null;
+    }
+  }
+}
+
+module.exports = { PythonWorkerPool, encodeFrame, FrameDecoder };
@@ -0,0 +1,238 @@
+const { spawn } = require('child_process');
+const {
+  RTCPeerConnection,
+  RTCRtpCodecParameters,
+  useNACK,
+  usePLI
+} = require('werift');
+const {
+  RtpSourceCallback,
+  JitterBufferCallback,
+  DepacketizeCallback
+} = require('werift/nonstandard');
+
+const DEFAULT_PEER_OPTIONS = {
+  iceServers: [
+    { urls: 'stun:stun.l.google.com:19302' },
+    { urls: 'stun:stun1.l.google.com:19302' }
+  ],
+  ffmpegPath: 'ffmpeg',
+  // Decoded frames handed to inference per second
+  maxFps: 8,
+  // Ask the phone for a fresh keyframe this often so a lost one never stalls decoding
+  keyframeIntervalMs: 3000
+};
+
+const JPEG_SOI = Buffer.from([0xff, 0xd8]);
+const JPEG_EOI = Buffer.from([0xff, 0xd9]);
+
+// 32-byte IVF file header for a VP8 stream with millisecond timestamps
+function ivfFileHeader() {
+  const header = Buffer.alloc(32);
+  header.write('DKIF', 0, 'ascii');
+  header.writeUInt16LE(0, 4);
+  header.writeUInt16LE(32, 6);
+  header.write('VP80', 8, 'ascii');
+  // Nominal size; the decoder takes the real one from the bitstream
+  header.writeUInt16LE(640, 12);
+  header.writeUInt16LE(480, 14);
+  header.writeUInt32LE(1000, 16);
+  header.writeUInt32LE(1, 20);
+  return header;
+}
+
+function ivfFrameHeader(size, timestampMs) {
+  const header = Buffer.alloc(12);
+  header.writeUInt32LE(size, 0);
+  header.writeBigUInt64LE(BigInt(Math.max(0, Math.round(timestampMs))), 4);
+  return header;
+}
+
+/**
+ * Decodes a VP8 elementary stream with an ffmpeg child process: VP8 frames go
+ * in as IVF on stdin, JPEG snapshots (at most maxFps) come out on stdout.
+ */
+class Vp8JpegDecoder {
+  constructor(options, onJpeg) {
+    this.options = options;
+    this.onJpeg = onJpeg;
+    this.process = null;
+    this.pending = Buffer.alloc(0);
+    this.firstTimestamp = null;
+  }
+
+  start() {
+    this.process = spawn(this.options.ffmpegPath, [
+      '-hide_banner', '-loglevel', 'error',
+      '-fflags', 'nobuffer', '-flags', 'low_delay',
+      '-probesize', '32', '-analyzeduration', '0',
+      '-f', 'ivf', '-i', 'pipe:0',
+      '-vf', `fps=${this.options.maxFps}`,
+      '-f', 'image2pipe', '-c:v', 'mjpeg', '-q:v', '5', 'pipe:1'
+    ], { stdio: ['pipe', 'pipe', 'pipe'] });
+
+    this.process.on('error', (error) => {
+      console.error('Failed to start ffmpeg for server-side decoding:', error.message);
+      this.process = null;
+    });
+    this.process.stdin.on('error', () => {});
+    this.process.stderr.on('data', (chunk) => process.stderr.write(`[ffmpeg] ${chunk}`));
+    this.process.stdout.on('data', (chunk) => this.splitJpegs(chunk));
+
+    this.process.stdin.write(ivfFileHeader());
+  }
+
+  write(frame) {
+    if (!this.process) return;
+    if (this.firstTimestamp === null) this.firstTimestamp = frame.timestamp;
+
+    // RTP timestamps are 32-bit 90kHz ticks; the unsigned shift absorbs wraparound
+    const elapsedMs = ((frame.timestamp - this.firstTimestamp) >>> 0) / 90;
+    this.process.stdin.write(ivfFrameHeader(frame.data.length, elapsedMs));
+    this.process.stdin.write(frame.data);
+  }
+
+  stop() {
+    if (this.process) {
+      this.process.stdin.end();
+      this.process.kill();
+      this.process = null;
+    }
+  }
+
+  splitJpegs(chunk) {
+    this.pending = Buffer.concat([this.pending, chunk]);
+
+    for (;;) {
+      const start = this.pending.indexOf(JPEG_SOI);
+      if (start === -1) {
+        this.pending = Buffer.alloc(0);
+        return;
+      }
+      const end = this.pending.indexOf(JPEG_EOI, start + 2);
+      if (end === -1) {
+        this.pending = this.pending.subarray(start);
+        return;
+      }
+
+      this.onJpeg(this.pending.subarray(start, end + 2));
+      this.pending = this.pending.subarray(end + 2);
+    }
+  }
+}
+
+/**
+ * A receive-only WebRTC peer run by the server itself. It offers to take the
+ * phone's VP8 video, reassembles frames from RTP (jitter buffer plus
+ * depacketizer, with PLI keyframe requests on loss) and decodes them to JPEG
+ * so server-mode inference no longer needs a browser tab relaying frames.
+ *
+ * Signaling goes through the caller: `onIceCandidate` for local candidates,
+ * `createOffer()` / `setAnswer()` / `addIceCandidate()` for the remote side.
+ */
+class ServerVideoPeer {
+  constructor(options = {}) {
+    this.options = { ...DEFAULT_PEER_OPTIONS, ...options };
+    this.onFrame = options.onFrame || (() => {});
+    this.onIceCandidate = options.onIceCandidate || (() => {});
+    this.onStateChange = options.onStateChange || (() => {});
+    this.decoder = null;
+    this.keyframeTimer = null;
+    this.rtpSubscription = null;
+    this.closed = false;
+
+    this.pc = new RTCPeerConnection({
+      iceServers: this.options.iceServers,
+      codecs: {
+        video: [
+          new RTCRtpCodecParameters({
+            mimeType: 'video/VP8',
+            clockRate: 90000,
+            rtcpFeedback: [useNACK(), usePLI()]
+          })
+        ]
+      }
+    });
+
+    this.pc.onIceCandidate.subscribe((candidate) => {
+      if (candidate) this.onIceCandidate(candidate.toJSON());
+    });
+    this.pc.connectionStateChange.subscribe((state) => this.onStateChange(state));
+    this.pc.onTrack.subscribe((track) => this.receiveTrack(track));
+
+    this.transceiver = this.pc.addTransceiver('video', { direction: 'recvonly' });
+  }
+
+  async createOffer() {
+    const offer = await this.pc.createOffer();
+    await this.pc.setLocalDescription(offer);
+    return { type: 'offer', sdp: this.pc.localDescription.sdp };
+  }
+
+  async setAnswer(answer) {
+    await this.pc.setRemoteDescription(answer);
+  }
+
+  async addIceCandidate(candidate) {
+    await this.pc.addIceCandidate(candidate);
+  }
+
+  receiveTrack(track) {
+    // A renegotiation can hand us a new track; drop the previous pipeline first
+    this.stopReceiving();
+
+    const requestKeyframe = () => {
+      if (track.ssrc !== undefined) {
+        this.transceiver.receiver.sendRtcpPLI(track.ssrc).catch(() => {});
+      }
+    };
+
+    const decoder = new Vp8JpegDecoder(this.options, (jpeg) => this.onFrame(jpeg, Date.now()));
+    decoder.start();
+    this.decoder = decoder;
+
+    const source = new RtpSourceCallback();
+    const jitterBuffer = new JitterBufferCallback(90000);
+    // The marker bit closes each VP8 frame, so multi-packet frames are reassembled
+    // and the depacketizer can hold output (and ask for a PLI) until a keyframe
+    const depacketizer = new DepacketizeCallback('vp8', {
+      waitForKeyframe: true,
+      isFinalPacketInSequence: (header) => header.marker
+    });
+
+    source.pipe(jitterBuffer.input);
+    jitterBuffer.pipe(depacketizer.input);
+    depacketizer.pipe(({ frame }) => {
+      if (frame && this.decoder === decoder) decoder.write(frame);
+    });
+    depacketizer.onNeedKeyFrame.subscribe(requestKeyframe);
+
+    this.rtpSubscription = track.onReceiveRtp.subscribe((rtp) => source.input(rtp));
+
+    requestKeyframe();
+    this.keyframeTimer = setInterval(requestKeyframe, this.options.keyframeIntervalMs);
+  }
+
+  async close() {
+    if (this.closed) return;
+    this.closed = true;
+
+    this.stopReceiving();
+    await this.pc.close();
+  }
+
+  stopReceiving() {
+    clearInterval(this.keyframeTimer);
+    this.keyframeTimer = null;
+    if (this.rtpSubscription) {
+      this.rtpSubscription.unSubscribe();
+      this.rtpSubscription = null;
+    }
+    if (this.decoder) {
+      this.decoder.stop();
+      this.decoder = null;
+    }
+  }
+}
+
+module.exports = { ServerVideoPeer };
@@ -0,0 +1,59 @@
+const crypto = require('crypto');
+
+const DEFAULT_SESSION_OPTIONS = {
+  // How long a client whose socket dropped can come back as the same peer
+  graceMs: 30 * 1000
+};
+
+/**
+ * Resumable signaling sessions. Every client that joins a room gets a session
+ * ID; when its socket drops abnormally the session is suspended instead of
+ * ended, and a reconnect presenting the ID within the grace period takes over
+ * the same peer ID and room membership. Sessions not resumed in time expire.
+ */
+class SessionRegistry {
+  constructor(options = {}) {
+    this.options = { ...DEFAULT_SESSION_OPTIONS, ...options };
+    this.sessions = new Map();
+  }
+
+  create(ws) {
+    const session = {
+      id: crypto.randomBytes(16).toString('base64url'),
+      ws,
+      expiryTimer: null
+    };
+    this.sessions.set(session.id, session);
+    return session;
+  }
+
+  get(id) {
+    return id ? this.sessions.get(id) : undefined;
+  }
+
+  // Keeps the session for the grace period; onExpire runs if nobody resumes it
+  suspend(session, onExpire) {
+    clearTimeout(session.expiryTimer);
+    session.expiryTimer = setTimeout(() => {
+      this.sessions.delete(session.id);
+      onExpire();
+    }, this.options.graceMs);
+  }
+
+  // Hands the session to a new socket and returns the socket it replaces
+  resume(session, ws) {
+    clearTimeout(session.expiryTimer);
+    session.expiryTimer = null;
+
+    const previous = session.ws;
+    session.ws = ws;
+    return previous;
+  }
+
+  end(session) {
+    clearTimeout(session.expiryTimer);
+    this.sessions.delete(session.id);
+  }
+}
+
+module.exports = { SessionRegistry };
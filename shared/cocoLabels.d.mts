@@ -0,0 +1,3 @@
+// See cocoLabels.mjs
+
+export declare const COCO_LABELS: string[];
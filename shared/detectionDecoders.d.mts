@@ -0,0 +1,75 @@
+// Detection decoding types; see detectionDecoders.mjs
+
+import type { ModelManifest, ModelOutputConfig } from './modelManifest.mjs';
+
+export interface Box {
+  xmin: number;
+  ymin: number;
+  xmax: number;
+  ymax: number;
+}
+
+export interface ScoredBox extends Box {
+  label: string;
+  score: number;
+}
+
+// A detection with coordinates normalized to [0, 1]
+export type DecodedDetection = ScoredBox;
+
+// The parts of an ONNX Runtime tensor the decoders read
+export interface OutputTensor {
+  dims: readonly number[];
+  data: ArrayLike<number> | ArrayLike<unknown>;
+}
+
+/**
+ * Maps source frame pixels onto model input pixels:
+ * `input = source * scale + pad`. Stretching uses independent scales and no
+ * padding; letterboxing uses one scale and centers the frame.
+ */
+export interface FrameTransform {
+  sourceWidth: number;
+  sourceHeight: number;
+  inputWidth: number;
+  inputHeight: number;
+  scaleX: number;
+  scaleY: number;
+  padX: number;
+  padY: number;
+}
+
+export declare function iou(a: Box, b: Box): number;
+
+export declare function nonMaxSuppression<T extends ScoredBox>(
+  boxes: T[],
+  iouThreshold: number,
+  maxDetections?: number
+): T[];
+
+export declare function decodeSSDOutput(
+  boxes: ArrayLike<number>,
+  scores: ArrayLike<number>,
+  numBoxes: number,
+  numClasses: number,
+  config: ModelOutputConfig,
+  labels: string[]
+): DecodedDetection[];
+
+export declare function decodeYOLOOutput(
+  predictions: ArrayLike<number>,
+  numBoxes: number,
+  numAttributes: number,
+  transposed: boolean,
+  inputWidth: number,
+  inputHeight: number,
+  config: ModelOutputConfig,
+  labels: string[]
+): DecodedDetection[];
+
+export declare function decodeModelOutputs(
+  outputs: OutputTensor[],
+  manifest: Pick<ModelManifest, 'input' | 'output' | 'labels'>
+): DecodedDetection[];
+
+export declare function unprojectDetection<T extends Box>(detection: T, transform: FrameTransform): T;
@@ -0,0 +1,214 @@
+// Output decoding for the detection models, shared by the WASM engine
+// (src/lib/objectDetection.ts) and server/onnxDetector.js so both produce
+// identical detections for the same model output. Types live in
+// detectionDecoders.d.mts.
+
+const clamp = (v) => Math.max(0, Math.min(1, v));
+
+export function iou(a, b) {
+  const interXmin = Math.max(a.xmin, b.xmin);
+  const interYmin = Math.max(a.ymin, b.ymin);
+  const interXmax = Math.min(a.xmax, b.xmax);
+  const interYmax = Math.min(a.ymax, b.ymax);
+
+  const interArea = Math.max(0, interXmax - interXmin) * Math.max(0, interYmax - interYmin);
+  if (interArea === 0) return 0;
+
+  const areaA = (a.xmax - a.xmin) * (a.ymax - a.ymin);
+  const areaB = (b.xmax - b.xmin) * (b.ymax - b.ymin);
+
+  return interArea / (areaA + areaB - interArea);
+}
+
+/**
+ * Greedy per-class non-maximum suppression. Boxes of different labels never
+ * suppress each other. Returns the kept boxes sorted by descending score.
+ */
+export function nonMaxSuppression(boxes, iouThreshold, maxDetections = Infinity) {
+  const sorted = [...boxes].sort((a, b) => b.score - a.score);
+  const kept = [];
+
+  for (const candidate of sorted) {
+    if (kept.length >= maxDetections) break;
+
+    const suppressed = kept.some(
+      keptBox => keptBox.label === candidate.label && iou(keptBox, candidate) > iouThreshold
+    );
+
+    if (!suppressed) {
+      kept.push(candidate);
+    }
+  }
+
+  return kept;
+}
+
+/**
+ * Turns raw SSD box/score tensors into normalized detections. Every anchor
+ * contributes one candidate per non-background class above the threshold,
+ * and the candidates are then reduced with per-class NMS.
+ */
+export function decodeSSDOutput(boxes, scores, numBoxes, numClasses, config, labels) {
+  // Most SSD exports reserve class 0 for background, so label indices are
+  // offset by one whenever a background class is declared.
+  const backgroundClass = config.backgroundClass ?? -1;
+  const labelOffset = backgroundClass >= 0 ? 1 : 0;
+  const candidates = [];
+
+  for (let i = 0; i < numBoxes; i++) {
+    for (let c = 0; c < numClasses; c++) {
+      if (c === backgroundClass) continue;
+
+      const score = scores[i * numClasses + c];
+      if (score < config.scoreThreshold) continue;
+
+      const xmin = clamp(boxes[i * 4]);
+      const ymin = clamp(boxes[i * 4 + 1]);
+      const xmax = clamp(boxes[i * 4 + 2]);
+      const ymax = clamp(boxes[i * 4 + 3]);
+      if (xmax <= xmin || ymax <= ymin) continue;
+
+      candidates.push({
+        label: labels[c - labelOffset] ?? `class_${c - labelOffset}`,
+        score,
+        xmin,
+        ymin,
+        xmax,
+        ymax
+      });
+    }
+  }
+
+  return nonMaxSuppression(candidates, config.iouThreshold, config.maxDetections);
+}
+
+/**
+ * Decodes YOLOv5/YOLOv8 predictions. Each box carries center-x, center-y,
+ * width and height in input pixels, an optional objectness score, then one
+ * score per class. With `transposed` the tensor is attribute-major
+ * ([attrs, N], YOLOv8) rather than box-major ([N, attrs], YOLOv5).
+ */
+export function decodeYOLOOutput(predictions, numBoxes, numAttributes, transposed, inputWidth, inputHeight, config, labels) {
+  const classOffset = config.objectness ? 5 : 4;
+  const numClasses = numAttributes - classOffset;
+  const at = transposed
+    ? (box, attr) => predictions[attr * numBoxes + box]
+    : (box, attr) => predictions[box * numAttributes + attr];
+  const candidates = [];
+
+  for (let i = 0; i < numBoxes; i++) {
+    const objectness = config.objectness ? at(i, 4) : 1;
+    if (objectness < config.scoreThreshold) continue;
+
+    // Keep only the best class per box, as the reference YOLO postprocessing does
+    let bestClass = 0;
+    let bestScore = 0;
+    for (let c = 0; c < numClasses; c++) {
+      const classScore = at(i, classOffset + c);
+      if (classScore > bestScore) {
+        bestScore = classScore;
+        bestClass = c;
+      }
+    }
+
+    const score = objectness * bestScore;
+    if (score < config.scoreThreshold) continue;
+
+    const cx = at(i, 0);
+    const cy = at(i, 1);
+    const w = at(i, 2);
+    const h = at(i, 3);
+
+    const xmin = clamp((cx - w / 2) / inputWidth);
+    const ymin = clamp((cy - h / 2) / inputHeight);
+    const xmax = clamp((cx + w / 2) / inputWidth);
+    const ymax = clamp((cy + h / 2) / inputHeight);
+    if (xmax <= xmin || ymax <= ymin) continue;
+
+    candidates.push({
+      label: labels[bestClass] ?? `class_${bestClass}`,
+      score,
+      xmin,
+      ymin,
+      xmax,
+      ymax
+    });
+  }
+
+  return nonMaxSuppression(candidates, config.iouThreshold, config.maxDetections);
+}
+
+/**
+ * Picks the decoder named in the manifest and locates its output tensors
+ * among the session outputs (onnxruntime-web and -node tensors alike).
+ */
+export function decodeModelOutputs(outputs, manifest) {
+  const { input, output, labels } = manifest;
+  const describeOutputs = () => outputs.map(t => `[${t.dims.join(',')}]`).join(' ');
+
+  switch (output.decoder) {
+    case 'ssd': {
+      // MobileNet-SSD exports two outputs: boxes [1, N, 4] in normalized corner
+      // form (xmin, ymin, xmax, ymax) and class scores [1, N, C].
+      const boxes = outputs.find(t => t.dims.length === 3 && t.dims[2] === 4);
+      const scores = outputs.find(t => t !== boxes && t.dims.length === 3);
+
+      if (!boxes || !scores) {
+        throw new Error(`Unexpected SSD outputs: ${describeOutputs()}`);
+      }
+
+      return decodeSSDOutput(boxes.data, scores.data, scores.dims[1], scores.dims[2], output, labels);
+    }
+
+    case 'yolo': {
+      // YOLO exports a single prediction tensor, [1, N, attrs] for YOLOv5 or
+      // the transposed [1, attrs, N] for YOLOv8.
+      const predictions = outputs.find(t => t.dims.length === 3);
+      if (!predictions) {
+        throw new Error(`Unexpected YOLO outputs: ${describeOutputs()}`);
+      }
+
+      const numAttributes = 4 + (output.objectness ? 1 : 0) + labels.length;
+      let transposed;
+      if (predictions.dims[2] === numAttributes) {
+        transposed = false;
+      } else if (predictions.dims[1] === numAttributes) {
+        transposed = true;
+      } else {
+        throw new Error(`YOLO output ${describeOutputs()} does not match ${numAttributes} attributes per box`);
+      }
+
+      return decodeYOLOOutput(
+        predictions.data,
+        transposed ? predictions.dims[2] : predictions.dims[1],
+        numAttributes,
+        transposed,
+        input.width,
+        input.height,
+        output,
+        labels
+      );
+    }
+
+    default:
+      throw new Error(`Unsupported output decoder: ${output.decoder}`);
+  }
+}
+
+/**
+ * Converts a detection normalized to the model input back to coordinates
+ * normalized to the original frame, removing any letterbox padding.
+ */
+export function unprojectDetection(detection, transform) {
+  const { sourceWidth, sourceHeight, inputWidth, inputHeight, scaleX, scaleY, padX, padY } = transform;
+  const toSourceX = (x) => clamp((x * inputWidth - padX) / scaleX / sourceWidth);
+  const toSourceY = (y) => clamp((y * inputHeight - padY) / scaleY / sourceHeight);
+
+  return {
+    ...detection,
+    xmin: toSourceX(detection.xmin),
+    ymin: toSourceY(detection.ymin),
+    xmax: toSourceX(detection.xmax),
+    ymax: toSourceY(detection.ymax)
+  };
+}
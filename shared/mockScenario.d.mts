@@ -0,0 +1,39 @@
+// Mock scenario types; see mockScenario.mjs
+
+import type { ScoredBox } from './detectionDecoders.mjs';
+
+/**
+ * A scripted sequence of detections. Each frame is emitted `repeat` times
+ * (default 1), in order; with `loop` the scenario starts over at the end,
+ * otherwise later frames have no detections.
+ */
+export interface MockScenario {
+  name?: string;
+  loop?: boolean;
+  frames: MockScenarioFrame[];
+}
+
+export interface MockScenarioFrame {
+  repeat?: number;
+  detections: ScoredBox[];
+}
+
+export declare function createSeededRandom(seed: number): () => number;
+
+export declare function validateMockScenario(raw: unknown): MockScenario;
+
+export declare class ScenarioPlayer {
+  constructor(scenario: MockScenario);
+  next(): ScoredBox[];
+}
+
+export interface MockDetectorOptions {
+  // Random when omitted
+  seed?: number;
+  scenario?: MockScenario;
+}
+
+export declare class MockDetector {
+  constructor(options?: MockDetectorOptions);
+  next(): ScoredBox[];
+}
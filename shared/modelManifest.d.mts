@@ -0,0 +1,57 @@
+// Model manifest and registry types; see modelManifest.mjs
+
+export type TensorLayout = 'NCHW' | 'NHWC';
+export type ResizeMode = 'stretch' | 'letterbox';
+export type OutputDecoderType = 'ssd' | 'yolo';
+
+export interface ModelInputConfig {
+  width: number;
+  height: number;
+  layout: TensorLayout;
+  // 'letterbox' keeps the frame's aspect ratio and pads the rest with padValue (0-255)
+  resize: ResizeMode;
+  padValue: number;
+  // Applied per RGB channel after scaling pixels to [0, 1]
+  mean: [number, number, number];
+  std: [number, number, number];
+}
+
+export interface ModelOutputConfig {
+  decoder: OutputDecoderType;
+  // SSD only: index of the background class in the score tensor
+  backgroundClass?: number;
+  // YOLO only: whether each box carries an objectness score (YOLOv5) or not (YOLOv8)
+  objectness?: boolean;
+  scoreThreshold: number;
+  iouThreshold: number;
+  maxDetections: number;
+}
+
+/**
+ * Contents of `public/models/<id>/model.json`. `model` is resolved relative
+ * to the manifest; omitting `labels` falls back to the COCO label table.
+ */
+export interface ModelManifest {
+  id: string;
+  name: string;
+  model: string;
+  input: ModelInputConfig;
+  output: ModelOutputConfig;
+  labels: string[];
+}
+
+export interface ModelRegistryEntry {
+  id: string;
+  name: string;
+}
+
+export interface ModelRegistry {
+  default: string;
+  models: ModelRegistryEntry[];
+}
+
+export declare const DEFAULT_INPUT: ModelInputConfig;
+export declare const DEFAULT_OUTPUT: ModelOutputConfig;
+
+export declare function normalizeModelRegistry(raw: unknown): ModelRegistry;
+export declare function normalizeManifest(id: string, raw: unknown): ModelManifest;
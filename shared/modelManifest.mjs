@@ -0,0 +1,89 @@
+// model.json manifests and registry.json (see public/models), shared by
+// src/lib/modelRegistry.ts and server/onnxDetector.js. Types live in
+// modelManifest.d.mts; this file holds the defaults and the validation both
+// sides apply before a model is loaded.
+import { COCO_LABELS } from './cocoLabels.mjs';
+
+export const DEFAULT_INPUT = {
+  width: 320,
+  height: 240,
+  layout: 'NCHW',
+  resize: 'stretch',
+  padValue: 114,
+  mean: [0, 0, 0],
+  std: [1, 1, 1]
+};
+
+export const DEFAULT_OUTPUT = {
+  decoder: 'ssd',
+  backgroundClass: 0,
+  scoreThreshold: 0.5,
+  iouThreshold: 0.45,
+  maxDetections: 100
+};
+
+const isObject = (value) => typeof value === 'object' && value !== null && !Array.isArray(value);
+const isPositiveInteger = (value) => Number.isInteger(value) && value > 0;
+const isNumber = (value) => typeof value === 'number' && Number.isFinite(value);
+const isChannelTriple = (value) => Array.isArray(value) && value.length === 3 && value.every(isNumber);
+
+export function normalizeModelRegistry(raw) {
+  if (!isObject(raw) || !Array.isArray(raw.models) || raw.models.length === 0) {
+    throw new Error('Model registry lists no models');
+  }
+  if (raw.models.some(entry => !isObject(entry) || typeof entry.id !== 'string' || entry.id.length === 0)) {
+    throw new Error('Model registry has an entry without an id');
+  }
+
+  return {
+    default: raw.default || raw.models[0].id,
+    models: raw.models
+  };
+}
+
+/**
+ * Fills in defaults and rejects manifests the detectors cannot run, so a bad
+ * model.json fails when it is loaded rather than on the first frame.
+ */
+export function normalizeManifest(id, raw) {
+  if (!isObject(raw)) {
+    throw new Error(`Model manifest '${id}' is not a JSON object`);
+  }
+  if (typeof raw.model !== 'string' || raw.model.length === 0) {
+    throw new Error(`Model manifest '${id}' does not name a model file`);
+  }
+
+  const input = { ...DEFAULT_INPUT, ...raw.input };
+  const output = { ...DEFAULT_OUTPUT, ...raw.output };
+
+  if (!isPositiveInteger(input.width) || !isPositiveInteger(input.height)) {
+    throw new Error(`Model manifest '${id}' has an invalid input size ${input.width}x${input.height}`);
+  }
+  if (input.layout !== 'NCHW' && input.layout !== 'NHWC') {
+    throw new Error(`Model manifest '${id}' has unsupported layout '${input.layout}'`);
+  }
+  if (input.resize !== 'stretch' && input.resize !== 'letterbox') {
+    throw new Error(`Model manifest '${id}' has unsupported resize mode '${input.resize}'`);
+  }
+  if (!isChannelTriple(input.mean) || !isChannelTriple(input.std)) {
+    throw new Error(`Model manifest '${id}' must give mean and std for 3 channels`);
+  }
+  if (output.decoder !== 'ssd' && output.decoder !== 'yolo') {
+    throw new Error(`Model manifest '${id}' has unsupported decoder '${output.decoder}'`);
+  }
+  if (![output.scoreThreshold, output.iouThreshold, output.maxDetections].every(isNumber)) {
+    throw new Error(`Model manifest '${id}' needs numeric scoreThreshold, iouThreshold and maxDetections`);
+  }
+  if (raw.labels !== undefined && (!Array.isArray(raw.labels) || raw.labels.some(label => typeof label !== 'string'))) {
+    throw new Error(`Model manifest '${id}' has labels that are not a list of strings`);
+  }
+
+  return {
+    id,
+    name: raw.name || id,
+    model: raw.model,
+    input,
+    output,
+    labels: raw.labels && raw.labels.length > 0 ? raw.labels : COCO_LABELS
+  };
+}
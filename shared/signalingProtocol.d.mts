@@ -0,0 +1,234 @@
+// Message types for the /ws signaling protocol; see signalingProtocol.mjs
+
+export declare const PROTOCOL_VERSION: number;
+export declare const DETECTION_CHANNEL_LABEL: string;
+
+export type PeerRole = 'browser' | 'phone';
+
+export interface SessionDescription {
+  type: 'offer' | 'answer';
+  sdp: string;
+}
+
+export interface IceCandidate {
+  candidate: string;
+  sdpMid?: string | null;
+  sdpMLineIndex?: number | null;
+  usernameFragment?: string | null;
+}
+
+export interface DetectionResultPayload {
+  frame_id: string;
+  capture_ts: number;
+  recv_ts: number;
+  inference_ts: number;
+  detections: Array<{
+    label: string;
+    score: number;
+    xmin: number;
+    ymin: number;
+    xmax: number;
+    ymax: number;
+  }>;
+}
+
+// Messages clients send to the server
+
+// A dashboard joins (or creates, without roomId) a room; with cameraId it
+// watches that phone, otherwise it follows the room's cameras and pairing codes
+export interface JoinMessage {
+  type: 'join';
+  version: number;
+  role: 'browser';
+  roomId?: string | null;
+  cameraId?: string | null;
+  serverPeer?: boolean;
+  // Required to join an existing room: the room's viewer key from room-joined,
+  // shared in the viewer link but never in the phone's QR code
+  viewerKey?: string | null;
+  // From an earlier room-joined; resumes that session after a reconnect
+  sessionId?: string | null;
+}
+
+// A phone joins a room with the pairing token from the QR code or its PIN
+export interface StartStreamMessage {
+  type: 'start-stream';
+  version: number;
+  role: 'phone';
+  roomId?: string | null;
+  token?: string | null;
+  pin?: string | null;
+  sessionId?: string | null;
+}
+
+export interface CreatePairingMessage {
+  type: 'create-pairing';
+}
+
+// Either side of a connection may offer (perfect negotiation). Phones address
+// offers and answers with `to`: a viewer's peer ID, or 'server' (answers only)
+// for the server-side peer. A viewer's go to the phone it watches.
+// iceRestart: the offer restarts ICE on the existing connection
+export interface OfferMessage {
+  type: 'offer';
+  offer: SessionDescription;
+  iceRestart?: boolean;
+  to?: string;
+}
+
+export interface AnswerMessage {
+  type: 'answer';
+  answer: SessionDescription;
+  to?: string;
+}
+
+// Phones address candidates with `to`; viewers' candidates go to the phone they watch
+export interface IceCandidateMessage {
+  type: 'ice-candidate';
+  candidate: IceCandidate;
+  to?: string;
+}
+
+export type ClientMessage =
+  | JoinMessage
+  | StartStreamMessage
+  | CreatePairingMessage
+  | OfferMessage
+  | AnswerMessage
+  | IceCandidateMessage;
+
+// Messages the server sends to clients
+
+// resumed: the client took over its earlier session (same peer ID) rather than joining anew
+export interface RoomJoinedMessage {
+  type: 'room-joined';
+  version: number;
+  roomId: string;
+  peerId: string;
+  sessionId: string;
+  resumed: boolean;
+  // Viewers only: the credential other viewers need to join this room
+  viewerKey?: string;
+}
+
+export interface PairingCreatedMessage {
+  type: 'pairing-created';
+  token: string;
+  pin: string;
+  expiresAt: number;
+}
+
+export interface PairingUsedMessage {
+  type: 'pairing-used';
+}
+
+// A phone in the room; its peer ID is what a dashboard tile watches
+export interface Camera {
+  peerId: string;
+}
+
+export interface CamerasMessage {
+  type: 'cameras';
+  cameras: Camera[];
+}
+
+export interface CreateOfferMessage {
+  type: 'create-offer';
+  peerId: string;
+}
+
+export interface RelayedOfferMessage {
+  type: 'offer';
+  offer: SessionDescription;
+  iceRestart?: boolean;
+  from: string;
+}
+
+export interface RelayedAnswerMessage {
+  type: 'answer';
+  answer: SessionDescription;
+  from: string;
+}
+
+export interface RelayedIceCandidateMessage {
+  type: 'ice-candidate';
+  candidate: IceCandidate;
+  from: string;
+}
+
+// The peer's socket dropped; its session is held for a while, followed by
+// peer-resumed or peer-left. Peers evicted by the heartbeat get peer-left at once.
+export interface PeerDisconnectedMessage {
+  type: 'peer-disconnected';
+  peerId: string;
+  role: PeerRole;
+  reason: 'closed' | 'timeout';
+}
+
+export interface PeerResumedMessage {
+  type: 'peer-resumed';
+  peerId: string;
+  role: PeerRole;
+}
+
+// 'timeout': the peer stopped answering heartbeats and did not come back in time.
+// Phones also get one with peerId and role 'server' when the server stops its
+// own peer connection to them.
+export interface PeerLeftMessage {
+  type: 'peer-left';
+  peerId: string;
+  role: PeerRole | 'server';
+  reason?: 'closed' | 'timeout';
+}
+
+// Pushed by the server to viewers, and by viewers to their phone over the
+// DETECTION_CHANNEL_LABEL data channel
+export interface DetectionResultMessage {
+  type: 'detection-result';
+  data: DetectionResultPayload;
+}
+
+export type ErrorCode =
+  | 'invalid-message'
+  | 'unknown-type'
+  | 'unsupported-version'
+  | 'room-not-found'
+  | 'pairing-rejected'
+  | 'viewer-key-rejected'
+  | 'session-expired'
+  | 'not-joined';
+
+export interface ProtocolError {
+  code: ErrorCode;
+  message: string;
+  // Type of the message that caused the error, when it had one
+  messageType?: string;
+}
+
+export interface ErrorMessage extends ProtocolError {
+  type: 'error';
+}
+
+export type ServerMessage =
+  | RoomJoinedMessage
+  | PairingCreatedMessage
+  | PairingUsedMessage
+  | CamerasMessage
+  | CreateOfferMessage
+  | RelayedOfferMessage
+  | RelayedAnswerMessage
+  | RelayedIceCandidateMessage
+  | PeerDisconnectedMessage
+  | PeerResumedMessage
+  | PeerLeftMessage
+  | DetectionResultMessage
+  | ErrorMessage;
+
+export type ParseResult<T> =
+  | { message: T; error?: undefined }
+  | { message?: undefined; error: ProtocolError };
+
+export declare function parseClientMessage(text: string): ParseResult<ClientMessage>;
+export declare function parseServerMessage(text: string): ParseResult<ServerMessage>;
+export declare function encodeClientMessage(message: ClientMessage): string;
+export declare function encodeServerMessage(message: ServerMessage): string;
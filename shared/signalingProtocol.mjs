@@ -0,0 +1,114 @@
+// Signaling protocol spoken over the /ws WebSocket, shared by server/index.js
+// and the browser pages. Types live in signalingProtocol.d.mts; this file holds
+// the runtime validation both sides run on every text message they receive.
+
+// Sent in join/start-stream and echoed in room-joined; bump on incompatible changes
+export const PROTOCOL_VERSION = 1;
+
+// Label of the RTCDataChannel a viewer opens to its phone; each message on it
+// is a detection-result, in the same shape the server pushes to viewers
+export const DETECTION_CHANNEL_LABEL = 'detections';
+
+const isObject = (value) => typeof value === 'object' && value !== null && !Array.isArray(value);
+const isString = (value) => typeof value === 'string';
+const isId = (value) => typeof value === 'string' && value.length > 0;
+const isNumber = (value) => typeof value === 'number' && Number.isFinite(value);
+const isBoolean = (value) => typeof value === 'boolean';
+const optional = (check) => (value) => value === undefined || value === null || check(value);
+const oneOf = (...values) => (value) => values.includes(value);
+const arrayOf = (check) => (value) => Array.isArray(value) && value.every(check);
+
+const isSessionDescription = (value) =>
+  isObject(value) && oneOf('offer', 'answer')(value.type) && isString(value.sdp);
+const isIceCandidate = (value) => isObject(value) && isString(value.candidate);
+const isCamera = (value) => isObject(value) && isId(value.peerId);
+const isDetectionResult = (value) => isObject(value) && Array.isArray(value.detections);
+
+// Required fields and their checks for each message type; unlisted fields are ignored
+const CLIENT_MESSAGES = {
+  // version is checked by the server so that old clients get unsupported-version
+  join: {
+    version: optional(isNumber),
+    role: oneOf('browser'),
+    roomId: optional(isId),
+    cameraId: optional(isId),
+    serverPeer: optional(isBoolean),
+    viewerKey: optional(isString),
+    sessionId: optional(isId)
+  },
+  'start-stream': {
+    version: optional(isNumber),
+    role: oneOf('phone'),
+    roomId: optional(isId),
+    token: optional(isString),
+    pin: optional(isString),
+    sessionId: optional(isId)
+  },
+  'create-pairing': {},
+  offer: { offer: isSessionDescription, iceRestart: optional(isBoolean), to: optional(isId) },
+  answer: { answer: isSessionDescription, to: optional(isId) },
+  'ice-candidate': { candidate: isIceCandidate, to: optional(isId) }
+};
+
+const SERVER_MESSAGES = {
+  'room-joined': { version: isNumber, roomId: isId, peerId: isId, sessionId: isId, resumed: isBoolean, viewerKey: optional(isId) },
+  'pairing-created': { token: isId, pin: isId, expiresAt: isNumber },
+  'pairing-used': {},
+  cameras: { cameras: arrayOf(isCamera) },
+  'create-offer': { peerId: isId },
+  offer: { offer: isSessionDescription, iceRestart: optional(isBoolean), from: isId },
+  answer: { answer: isSessionDescription, from: isId },
+  'ice-candidate': { candidate: isIceCandidate, from: isId },
+  'peer-disconnected': { peerId: isId, role: oneOf('browser', 'phone'), reason: oneOf('closed', 'timeout') },
+  'peer-resumed': { peerId: isId, role: oneOf('browser', 'phone') },
+  'peer-left': { peerId: isId, role: oneOf('browser', 'phone', 'server'), reason: optional(oneOf('closed', 'timeout')) },
+  'detection-result': { data: isDetectionResult },
+  error: { code: isId, message: isString }
+};
+
+function parseMessage(text, schemas) {
+  let value;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    return { error: { code: 'invalid-message', message: 'Message is not valid JSON' } };
+  }
+
+  if (!isObject(value) || !isId(value.type)) {
+    return { error: { code: 'invalid-message', message: 'Message must be an object with a "type"' } };
+  }
+
+  const fields = Object.prototype.hasOwnProperty.call(schemas, value.type) ? schemas[value.type] : null;
+  if (!fields) {
+    return { error: { code: 'unknown-type', message: `Unknown message type "${value.type}"`, messageType: value.type } };
+  }
+
+  const invalid = Object.keys(fields).filter(field => !fields[field](value[field]));
+  if (invalid.length > 0) {
+    return {
+      error: {
+        code: 'invalid-message',
+        message: `Invalid ${value.type} message: bad or missing ${invalid.join(', ')}`,
+        messageType: value.type
+      }
+    };
+  }
+
+  return { message: value };
+}
+
+export function parseClientMessage(text) {
+  return parseMessage(text, CLIENT_MESSAGES);
+}
+
+export function parseServerMessage(text) {
+  return parseMessage(text, SERVER_MESSAGES);
+}
+
+export function encodeClientMessage(message) {
+  return JSON.stringify(message);
+}
+
+export function encodeServerMessage(message) {
+  return JSON.stringify(message);
+}
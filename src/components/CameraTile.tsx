@@ -0,0 +1,123 @@
+import React, { useState, useRef, forwardRef, useImperativeHandle } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { WebRTCStream, ServerTransport, Metrics } from './WebRTCStream';
+import { ObjectDetectionOverlay } from './ObjectDetectionOverlay';
+import { TilingConfig } from '../lib/objectDetection';
+import { MockOptions } from '../lib/mockDetector';
+
+interface Detection {
+  label: string;
+  score: number;
+  xmin: number;
+  ymin: number;
+  xmax: number;
+  ymax: number;
+}
+
+type ConnectionStatus = 'disconnected' | 'connecting' | 'connected';
+
+export interface CameraTileHandle {
+  cleanup: () => void;
+}
+
+interface CameraTileProps {
+  roomId: string;
+  viewerKey: string | null;
+  cameraId: string;
+  label: string;
+  isServerMode: boolean;
+  serverTransport: ServerTransport;
+  modelId?: string;
+  tiling: TilingConfig | null;
+  mock: MockOptions | null;
+  isStreaming: boolean;
+  isSelected: boolean;
+  onSelect: () => void;
+  onConnectionChange: (cameraId: string, status: ConnectionStatus) => void;
+  onMetricsUpdate: (cameraId: string, metrics: Metrics) => void;
+}
+
+/**
+ * One phone camera on the dashboard grid: its own stream, detection overlay,
+ * connection badge and headline metrics. Clicking the tile selects it.
+ */
+export const CameraTile = forwardRef<CameraTileHandle, CameraTileProps>(
+  ({ roomId, viewerKey, cameraId, label, isServerMode, serverTransport, modelId, tiling, mock, isStreaming, isSelected, onSelect, onConnectionChange, onMetricsUpdate }, ref) => {
+    const videoRef = useRef<HTMLVideoElement & { cleanup?: () => void }>(null);
+    const [status, setStatus] = useState<ConnectionStatus>('disconnected');
+    const [detections, setDetections] = useState<Detection[]>([]);
+    const [metrics, setMetrics] = useState<Metrics | null>(null);
+
+    useImperativeHandle(ref, () => ({
+      cleanup: () => {
+        videoRef.current?.cleanup?.();
+        setDetections([]);
+      }
+    }));
+
+    return (
+      <div
+        onClick={onSelect}
+        className={`relative aspect-video bg-gradient-to-br from-gray-900 to-black rounded-xl overflow-hidden border shadow-2xl cursor-pointer transition-all ${
+          isSelected ? 'sm:col-span-2 order-first border-cyan-400/70 ring-2 ring-cyan-400/40' : 'border-white/10 hover:border-white/30'
+        }`}
+      >
+        <WebRTCStream
+          ref={videoRef}
+          isServerMode={isServerMode}
+          serverTransport={serverTransport}
+          modelId={modelId}
+          tiling={tiling}
+          mock={mock}
+          roomId={roomId}
+          viewerKey={viewerKey}
+          cameraId={cameraId}
+          onConnectionChange={(next) => {
+            setStatus(next);
+            onConnectionChange(cameraId, next);
+          }}
+          onDetections={setDetections}
+          onMetricsUpdate={(next) => {
+            setMetrics(next);
+            onMetricsUpdate(cameraId, next);
+          }}
+        />
+
+        <ObjectDetectionOverlay
+          detections={detections}
+          videoRef={videoRef}
+        />
+
+        <div className="absolute top-2 left-2 right-2 flex items-center justify-between gap-2 pointer-events-none">
+          <span className="text-sm font-medium text-white bg-black/50 rounded px-2 py-0.5">📷 {label}</span>
+          <Badge className={`${
+            status === 'connected' ? 'bg-green-500/20 text-green-300 border-green-500/30' :
+            status === 'connecting' ? 'bg-yellow-500/20 text-yellow-300 border-yellow-500/30' : 'bg-red-500/20 text-red-300 border-red-500/30'
+          }`}>
+            {status === 'connected' ? '🟢' : status === 'connecting' ? '🟡' : '🔴'} {status}
+          </Badge>
+        </div>
+
+        {isStreaming && metrics && (
+          <div className="absolute bottom-2 left-2 text-xs font-mono text-gray-200 bg-black/50 rounded px-2 py-0.5 pointer-events-none">
+            {metrics.fps.toFixed(1)} fps · {metrics.latency.median.toFixed(0)}ms
+          </div>
+        )}
+
+        {isStreaming && status === 'connected' && detections.length === 0 && (
+          <div className="absolute bottom-2 right-2 text-xs text-green-300 bg-black/50 rounded px-2 py-0.5 pointer-events-none">
+            ✨ Point this camera at objects
+          </div>
+        )}
+
+        {!isStreaming && (
+          <div className="absolute inset-0 flex flex-col items-center justify-center bg-gradient-to-br from-gray-800/50 to-black/50">
+            <div className="text-4xl mb-2">📱</div>
+            <p className="text-white font-medium">{label} paired</p>
+            <p className="text-gray-400 text-sm">Press Start Stream to begin</p>
+          </div>
+        )}
+      </div>
+    );
+  }
+);
@@ -2,12 +2,15 @@ import React from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
+import { InferenceStats } from '../lib/metricsCollector';
 
 interface MetricsPanelProps {
   metrics: {
     latency: { median: number; p95: number };
     fps: number;
     bandwidth: { uplink: number; downlink: number };
+    inference?: InferenceStats | null;
+    skippedFrames?: number;
   };
   isVisible: boolean;
 }
@@ -17,6 +20,8 @@ export const MetricsPanel: React.FC<MetricsPanelProps> = ({ metrics, isVisible }
 
   const formatLatency = (ms: number) => `${ms.toFixed(1)}ms`;
   const formatBandwidth = (kbps: number) => `${(kbps / 1000).toFixed(1)} Mbps`;
+  const formatInferenceMode = (inference: InferenceStats) =>
+    inference.mode === 'tiled' ? `tiled ×${inference.passes.toFixed(0)}` : inference.mode;
 
   return (
     <Card className="bg-white/10 backdrop-blur-sm border-white/20">
@@ -65,6 +70,22 @@ export const MetricsPanel: React.FC<MetricsPanelProps> = ({ metrics, isVisible }
                 <span className="text-sm text-gray-300">Target FPS:</span>
                 <Badge className="bg-gray-500/20 text-gray-300 border-gray-500/30">10-15 fps</Badge>
               </div>
+              {metrics.skippedFrames !== undefined && (
+                <div className="flex justify-between">
+                  <span className="text-sm text-gray-300">Skipped (static):</span>
+                  <Badge className="bg-gray-500/20 text-gray-300 border-gray-500/30">
+                    {metrics.skippedFrames} frames
+                  </Badge>
+                </div>
+              )}
+              {metrics.inference && (
+                <div className="flex justify-between">
+                  <span className="text-sm text-gray-300">Inference ({formatInferenceMode(metrics.inference)}):</span>
+                  <Badge className="bg-gray-500/20 text-gray-300 border-gray-500/30">
+                    {formatLatency(metrics.inference.avgMs)}
+                  </Badge>
+                </div>
+              )}
             </div>
           </div>
 
@@ -7,6 +7,7 @@ interface Detection {
   ymin: number;
   xmax: number;
   ymax: number;
+  track_id?: number;
 }
 
 interface ObjectDetectionOverlayProps {
@@ -14,6 +15,33 @@ interface ObjectDetectionOverlayProps {
   videoRef: React.RefObject<HTMLVideoElement & { cleanup?: () => void }>;
 }
 
+/**
+ * Where the video frame is drawn inside the element, in element pixels.
+ * Detections are normalized to the frame, so with object-fit: cover the
+ * cropped part lies outside the element and with contain the bars are skipped.
+ */
+function displayedContentRect(video: HTMLVideoElement, width: number, height: number) {
+  const fullElement = { x: 0, y: 0, width, height };
+  if (!video.videoWidth || !video.videoHeight) return fullElement;
+
+  const fit = getComputedStyle(video).objectFit;
+  if (fit !== 'cover' && fit !== 'contain') return fullElement;
+
+  const widthScale = width / video.videoWidth;
+  const heightScale = height / video.videoHeight;
+  const scale = fit === 'cover' ? Math.max(widthScale, heightScale) : Math.min(widthScale, heightScale);
+  const contentWidth = video.videoWidth * scale;
+  const contentHeight = video.videoHeight * scale;
+
+  // object-position defaults to centered, which is all this app uses
+  return {
+    x: (width - contentWidth) / 2,
+    y: (height - contentHeight) / 2,
+    width: contentWidth,
+    height: contentHeight
+  };
+}
+
 export const ObjectDetectionOverlay: React.FC<ObjectDetectionOverlayProps> = ({
   detections,
   videoRef
@@ -54,27 +82,14 @@ export const ObjectDetectionOverlay: React.FC<ObjectDetectionOverlayProps> = ({
       // Clear previous drawings
       ctx.clearRect(0, 0, canvas.width, canvas.height);
 
-      // Debug logging
-      if (detections.length > 0) {
-        console.log('Drawing', detections.length, 'detections on overlay');
-        console.log('Canvas size:', canvas.width, 'x', canvas.height);
-        console.log('Video size:', video.clientWidth, 'x', video.clientHeight);
-      }
-
-      // Always draw a test box to verify overlay is working
-      ctx.strokeStyle = '#FF0000';
-      ctx.lineWidth = 2;
-      ctx.strokeRect(50, 50, 100, 100);
-      ctx.fillStyle = '#FF0000';
-      ctx.font = '14px Arial';
-      ctx.fillText('TEST OVERLAY', 55, 45);
+      const content = displayedContentRect(video, canvas.width, canvas.height);
 
       // Draw detections
       detections.forEach((detection) => {
-        const x = detection.xmin * canvas.width;
-        const y = detection.ymin * canvas.height;
-        const width = (detection.xmax - detection.xmin) * canvas.width;
-        const height = (detection.ymax - detection.ymin) * canvas.height;
+        const x = content.x + detection.xmin * content.width;
+        const y = content.y + detection.ymin * content.height;
+        const width = (detection.xmax - detection.xmin) * content.width;
+        const height = (detection.ymax - detection.ymin) * content.height;
 
         // Draw bounding box
         ctx.strokeStyle = getColorForLabel(detection.label);
@@ -82,7 +97,8 @@ export const ObjectDetectionOverlay: React.FC<ObjectDetectionOverlayProps> = ({
         ctx.strokeRect(x, y, width, height);
 
         // Draw label background
-        const label = `${detection.label} (${(detection.score * 100).toFixed(1)}%)`;
+        const trackSuffix = detection.track_id !== undefined ? ` #${detection.track_id}` : '';
+        const label = `${detection.label}${trackSuffix} (${(detection.score * 100).toFixed(1)}%)`;
         ctx.font = '16px Arial';
         const textMetrics = ctx.measureText(label);
         const textHeight = 20;
@@ -97,6 +113,11 @@ export const ObjectDetectionOverlay: React.FC<ObjectDetectionOverlayProps> = ({
     };
     
     drawOverlays();
+
+    // The frame size is only known once metadata arrives, and phones change it on rotation
+    const video = videoRef?.current;
+    video?.addEventListener('resize', drawOverlays);
+    return () => video?.removeEventListener('resize', drawOverlays);
   }, [detections, videoRef, getColorForLabel]);
 
   return (
@@ -1,6 +1,14 @@
 import React, { useEffect, useRef, forwardRef, useImperativeHandle } from 'react';
-import { ObjectDetectionEngine, DetectionResult } from '../lib/objectDetection';
-import { MetricsCollector } from '../lib/metricsCollector';
+import { ObjectDetectionEngine, DetectionResult, TilingConfig } from '../lib/objectDetection';
+import { MockOptions } from '../lib/mockDetector';
+import { MetricsCollector, InferenceStats } from '../lib/metricsCollector';
+import { ObjectTracker } from '../lib/objectTracker';
+import { DetectionSmoother, SmoothingConfig } from '../lib/detectionSmoother';
+import { MotionGate, MotionGateConfig } from '../lib/motionGate';
+import { PROTOCOL_VERSION, DETECTION_CHANNEL_LABEL, ClientMessage, encodeClientMessage, encodeServerMessage, parseServerMessage } from '../../shared/signalingProtocol.mjs';
+import { reconnectDelay, signalingUrl } from '../lib/reconnect';
+import { PerfectNegotiation } from '../lib/perfectNegotiation';
+import { fetchIceServers } from '../lib/iceConfig';
 
 interface Detection {
   label: string;
@@ -11,29 +19,82 @@ interface Detection {
   ymax: number;
 }
 
-interface Metrics {
+export interface Metrics {
   latency: { median: number; p95: number };
   fps: number;
   bandwidth: { uplink: number; downlink: number };
+  inference?: InferenceStats | null;
+  skippedFrames?: number;
 }
 
+// How server-mode frames reach the server: binary messages on the signaling
+// WebSocket with pushed results, one HTTP request per frame, or not at all
+// ('webrtc': the server receives the phone's video over its own peer connection)
+export type ServerTransport = 'websocket' | 'http' | 'webrtc';
+
+// Frames are dropped rather than queued once this much is waiting in the socket
+const MAX_WEBSOCKET_BUFFERED_BYTES = 1024 * 1024;
+
+// [uint32 BE header length][header JSON][encoded image]; decoded by server/frameStream.js
+const encodeFrameMessage = (image: Blob, frameId: string, captureTs: number): Blob => {
+  const header = new TextEncoder().encode(JSON.stringify({ type: 'frame', frame_id: frameId, capture_ts: captureTs }));
+  const prefix = new DataView(new ArrayBuffer(4));
+  prefix.setUint32(0, header.length);
+  return new Blob([prefix.buffer, header, image]);
+};
+
 interface WebRTCStreamProps {
   isServerMode: boolean;
+  serverTransport?: ServerTransport;
+  modelId?: string;
+  // Must be referentially stable; a new object re-initializes the stream
+  tiling?: TilingConfig | null;
+  mock?: MockOptions | null;
+  // Skip inference on static scenes; null disables the check
+  motionGate?: Partial<MotionGateConfig> | null;
+  // Box smoothing and hysteresis; must be referentially stable, a new object
+  // resets the smoother (and so every track's history)
+  smoothing?: Partial<SmoothingConfig>;
   onConnectionChange: (status: 'disconnected' | 'connecting' | 'connected') => void;
+  // Signaling room (see useSignalingRoom), its viewer key and the peer ID of the phone to watch in it
+  roomId: string;
+  viewerKey: string | null;
+  cameraId: string;
   onDetections: (detections: Detection[]) => void;
   onMetricsUpdate: (metrics: Metrics) => void;
 }
 
 export const WebRTCStream = forwardRef<HTMLVideoElement, WebRTCStreamProps>(
-  ({ isServerMode, onConnectionChange, onDetections, onMetricsUpdate }, ref) => {
+  ({ isServerMode, serverTransport = 'websocket', modelId, tiling, mock, motionGate = {}, smoothing, roomId, viewerKey, cameraId, onConnectionChange, onDetections, onMetricsUpdate }, ref) => {
     const videoRef = useRef<HTMLVideoElement>(null);
     const websocketRef = useRef<WebSocket | null>(null);
     const peerConnectionRef = useRef<RTCPeerConnection | null>(null);
+    const negotiationRef = useRef<PerfectNegotiation | null>(null);
+    // Carries each result back to the phone for its own overlay
+    const detectionChannelRef = useRef<RTCDataChannel | null>(null);
+    const lastPhoneResultRef = useRef<DetectionResult | null>(null);
+    const iceServersRef = useRef<RTCIceServer[]>([]);
+    // Bumped by cleanup, so an initialization still awaiting the ICE config stops there
+    const generationRef = useRef(0);
     const canvasRef = useRef<HTMLCanvasElement>(null);
     const iceFailureCount = useRef(0);
     const reconnectAttempts = useRef(0);
+    const reconnectTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+    // Issued in room-joined; presented on reconnect to resume the same session
+    const sessionIdRef = useRef<string | null>(null);
     const detectionEngineRef = useRef<ObjectDetectionEngine | null>(null);
     const metricsCollectorRef = useRef<MetricsCollector | null>(null);
+    const trackerRef = useRef(new ObjectTracker());
+    const smootherRef = useRef(new DetectionSmoother(smoothing));
+    const binaryUploadRef = useRef(true);
+    const metricsTimersRef = useRef<ReturnType<typeof setInterval>[]>([]);
+    // The running detection loop and its pending animation frame; every new
+    // connection restarts the loop, so at most one ever runs
+    const processingLoopRef = useRef<{ frameRequest: number } | null>(null);
+
+    useEffect(() => {
+      smootherRef.current = new DetectionSmoother(smoothing);
+    }, [smoothing]);
 
     useImperativeHandle(ref, () => ({
       ...videoRef.current!,
@@ -41,9 +102,13 @@ export const WebRTCStream = forwardRef<HTMLVideoElement, WebRTCStreamProps>(
     }));
 
     useEffect(() => {
+      // A run superseded by cleanup stops before creating anything more
+      const generation = generationRef.current;
       const init = async () => {
         await initializeWebRTC();
+        if (generation !== generationRef.current) return;
         await initializeDetectionEngine();
+        if (generation !== generationRef.current) return;
         initializeMetricsCollector();
       };
       
@@ -52,210 +117,318 @@ export const WebRTCStream = forwardRef<HTMLVideoElement, WebRTCStreamProps>(
       return () => {
         cleanup();
       };
-    }, [isServerMode]); // eslint-disable-line react-hooks/exhaustive-deps
+    }, [isServerMode, serverTransport, modelId, tiling, mock, roomId, viewerKey, cameraId]); // eslint-disable-line react-hooks/exhaustive-deps
 
     const initializeWebRTC = async () => {
-      try {
-        onConnectionChange('connecting');
-
-        // Create peer connection
-        const peerConnection = new RTCPeerConnection({
-          iceServers: [
-            { urls: 'stun:stun.l.google.com:19302' },
-            { urls: 'stun:stun1.l.google.com:19302' }
-          ]
-        });
+      onConnectionChange('connecting');
+      sessionIdRef.current = null;
+      reconnectAttempts.current = 0;
+      // Fetched before signaling, which is what creates the peer connection
+      const generation = generationRef.current;
+      const iceServers = await fetchIceServers();
+      if (generation !== generationRef.current) return;
+
+      iceServersRef.current = iceServers;
+      connectSignaling();
+    };
 
-        peerConnectionRef.current = peerConnection;
+    // Always goes through the current socket, which changes on every reconnect
+    const send = (message: ClientMessage) => {
+      const websocket = websocketRef.current;
+      if (websocket && websocket.readyState === WebSocket.OPEN) {
+        websocket.send(encodeClientMessage(message));
+      }
+    };
 
-        // Handle incoming stream
-        peerConnection.ontrack = async (event) => {
-          if (videoRef.current) {
-            videoRef.current.srcObject = event.streams[0];
-            onConnectionChange('connected');
-            
-            // Wait for video to be ready and detection engine to be initialized
-            videoRef.current.onloadedmetadata = async () => {
-              // Ensure detection engine is ready
-              if (!detectionEngineRef.current) {
-                await initializeDetectionEngine();
-              }
-              startProcessing();
-            };
-          }
-        };
-
-        // Handle ICE candidates
-        peerConnection.onicecandidate = (event) => {
-          if (event.candidate && websocketRef.current) {
-            console.log('Browser sending ICE candidate');
-            websocketRef.current.send(JSON.stringify({
-              type: 'ice-candidate',
-              candidate: event.candidate
-            }));
-          }
-        };
-
-        // Handle connection state changes
-        peerConnection.onconnectionstatechange = () => {
-          console.log('Browser connection state:', peerConnection.connectionState);
-          if (peerConnection.connectionState === 'connected') {
-            console.log('Browser WebRTC connection established successfully');
-            onConnectionChange('connected');
-          } else if (peerConnection.connectionState === 'failed') {
-            console.error('Browser WebRTC connection failed');
-            onConnectionChange('disconnected');
-          } else if (peerConnection.connectionState === 'disconnected') {
-            console.log('Browser WebRTC connection disconnected');
-            onConnectionChange('disconnected');
-          } else if (peerConnection.connectionState === 'connecting') {
-            console.log('Browser WebRTC connection attempting to connect');
-            onConnectionChange('connecting');
-          }
-        };
-
-        // Handle ICE connection state changes
-        peerConnection.oniceconnectionstatechange = () => {
-          console.log('ICE connection state:', peerConnection.iceConnectionState);
-          if (peerConnection.iceConnectionState === 'failed') {
-            console.log('ICE connection failed, attempting restart...');
-            iceFailureCount.current++;
-            restartIce();
-          } else if (peerConnection.iceConnectionState === 'connected') {
-            iceFailureCount.current = 0; // Reset failure count on success
-          }
-        };
-
-        // Initialize WebSocket connection for signaling
-        const wsProtocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
-        const wsHost = window.location.host; // Use host instead of hostname to include port
-        const websocket = new WebSocket(`${wsProtocol}//${wsHost}/ws`);
-        websocketRef.current = websocket;
-
-        websocket.onopen = () => {
-          console.log('WebSocket connected');
-          reconnectAttempts.current = 0; // Reset on successful connection
-          websocket.send(JSON.stringify({ type: 'join', role: 'browser' }));
-        };
-
-        websocket.onmessage = async (event) => {
-          const message = JSON.parse(event.data);
+    // A fresh connection to the phone; any previous one is closed, not leaked
+    const createPeerConnection = () => {
+      peerConnectionRef.current?.close();
+
+      const peerConnection = new RTCPeerConnection({ iceServers: iceServersRef.current });
+
+      peerConnectionRef.current = peerConnection;
+      // The viewer is the impolite peer: its offers win when they collide with the phone's
+      negotiationRef.current = new PerfectNegotiation(peerConnection, {
+        polite: false,
+        sendDescription: (description, iceRestart) => {
+          console.log(`Browser sending ${iceRestart ? 'ICE restart ' : ''}${description.type} to phone`);
+          send(description.type === 'offer'
+            ? { type: 'offer', offer: description, iceRestart }
+            : { type: 'answer', answer: description });
+        }
+      });
+
+      // Handle incoming stream
+      peerConnection.ontrack = async (event) => {
+        if (videoRef.current) {
+          videoRef.current.srcObject = event.streams[0];
+          onConnectionChange('connected');
           
-          switch (message.type) {
-            case 'create-offer': {
-              console.log('Browser received create-offer, creating WebRTC offer');
-              try {
-                // Browser creates offer for phone
-                const offer = await peerConnection.createOffer({
-                  offerToReceiveAudio: false,
-                  offerToReceiveVideo: true
-                });
-                await peerConnection.setLocalDescription(offer);
-                console.log('Browser set local description (offer)');
-                console.log('Browser sending offer to server');
-                websocket.send(JSON.stringify({
-                  type: 'offer',
-                  offer: offer
-                }));
-              } catch (error) {
-                console.error('Browser failed to create offer:', error);
-              }
-              break;
+          // Wait for video to be ready and detection engine to be initialized
+          videoRef.current.onloadedmetadata = async () => {
+            // Ensure detection engine is ready
+            if (!detectionEngineRef.current) {
+              await initializeDetectionEngine();
             }
+            startProcessing();
+          };
+        }
+      };
 
-            case 'answer': {
-              console.log('Browser received answer from phone');
-              await peerConnection.setRemoteDescription(message.answer);
-              console.log('Browser set remote description (answer)');
-              break;
+      // Handle ICE candidates
+      peerConnection.onicecandidate = (event) => {
+        if (event.candidate) {
+          console.log('Browser sending ICE candidate');
+          send({ type: 'ice-candidate', candidate: event.candidate });
+        }
+      };
+
+      // Handle connection state changes
+      peerConnection.onconnectionstatechange = () => {
+        if (peerConnectionRef.current !== peerConnection) return;
+        console.log('Browser connection state:', peerConnection.connectionState);
+        if (peerConnection.connectionState === 'connected') {
+          console.log('Browser WebRTC connection established successfully');
+          onConnectionChange('connected');
+        } else if (peerConnection.connectionState === 'failed') {
+          console.error('Browser WebRTC connection failed');
+          onConnectionChange('disconnected');
+        } else if (peerConnection.connectionState === 'disconnected') {
+          console.log('Browser WebRTC connection disconnected');
+          onConnectionChange('disconnected');
+        } else if (peerConnection.connectionState === 'connecting') {
+          console.log('Browser WebRTC connection attempting to connect');
+          onConnectionChange('connecting');
+        }
+      };
+
+      // Handle ICE connection state changes
+      peerConnection.oniceconnectionstatechange = () => {
+        if (peerConnectionRef.current !== peerConnection) return;
+        console.log('ICE connection state:', peerConnection.iceConnectionState);
+        if (peerConnection.iceConnectionState === 'failed') {
+          console.log('ICE connection failed, attempting restart...');
+          iceFailureCount.current++;
+          restartIce();
+        } else if (peerConnection.iceConnectionState === 'connected') {
+          iceFailureCount.current = 0; // Reset failure count on success
+        }
+      };
+
+      // Only the newest result matters to the phone, so lost ones are not resent
+      detectionChannelRef.current = peerConnection.createDataChannel(DETECTION_CHANNEL_LABEL, {
+        ordered: false,
+        maxRetransmits: 0
+      });
+
+      // Receiving video makes negotiation needed, which sends the first offer
+      peerConnection.addTransceiver('video', { direction: 'recvonly' });
+
+      return peerConnection;
+    };
+
+    // After either side resumes its session: media that survived the drop is
+    // left alone, an offer lost with the dropped socket is sent again, and a
+    // stalled connection gets an ICE restart. A tile that never reached its
+    // phone (it was away when the tile joined) starts negotiating now.
+    const renegotiate = () => {
+      const negotiation = negotiationRef.current;
+      if (!negotiation) {
+        createPeerConnection();
+        return;
+      }
+
+      if (negotiation.peerConnection.connectionState === 'connected') return;
+      if (!negotiation.resendPendingOffer()) {
+        negotiation.restartIce();
+      }
+    };
+
+    const connectSignaling = () => {
+      const websocket = new WebSocket(signalingUrl());
+      websocketRef.current = websocket;
+
+      websocket.onopen = () => {
+        console.log('WebSocket connected');
+        websocket.send(encodeClientMessage({
+          type: 'join',
+          version: PROTOCOL_VERSION,
+          role: 'browser',
+          roomId,
+          viewerKey,
+          cameraId,
+          serverPeer: isServerMode && serverTransport === 'webrtc',
+          sessionId: sessionIdRef.current
+        }));
+      };
+
+      websocket.onmessage = async (event) => {
+        const { message, error } = parseServerMessage(event.data);
+        if (error) {
+          console.error('Ignoring malformed signaling message:', error.message);
+          return;
+        }
+        
+        switch (message.type) {
+          case 'room-joined':
+            sessionIdRef.current = message.sessionId;
+            reconnectAttempts.current = 0; // Reset on successful join
+            // Long sessions outlive time-limited TURN credentials
+            fetchIceServers().then(servers => {
+              iceServersRef.current = servers;
+            });
+            if (message.resumed) {
+              console.log('Browser resumed its signaling session');
+              renegotiate();
             }
-              
-            case 'ice-candidate':
-              if (message.candidate) {
-                console.log('Browser received ICE candidate from phone');
-                try {
-                  await peerConnection.addIceCandidate(message.candidate);
-                  console.log('Browser added ICE candidate successfully');
-                } catch (error) {
-                  console.error('Error adding ICE candidate:', error);
-                  // Attempt ICE restart on repeated failures
-                  if (iceFailureCount.current > 3) {
-                    console.log('Multiple ICE failures detected, attempting restart...');
-                    restartIce();
-                  }
+            break;
+
+          case 'error':
+            console.error(`Signaling error (${message.code}):`, message.message);
+            break;
+
+          case 'create-offer':
+            // The phone is in the room: open the connection, which starts negotiating
+            console.log(`Browser received create-offer for phone ${message.peerId}, creating WebRTC connection`);
+            createPeerConnection();
+            break;
+
+          case 'offer':
+          case 'answer': {
+            const negotiation = negotiationRef.current;
+            if (message.from !== cameraId || !negotiation) break;
+            const description = message.type === 'offer' ? message.offer : message.answer;
+            console.log(`Browser received ${description.type} from phone`);
+            try {
+              await negotiation.handleDescription(description);
+            } catch (error) {
+              console.error(`Browser failed to handle ${description.type}:`, error);
+            }
+            break;
+          }
+            
+          case 'ice-candidate': {
+            const negotiation = negotiationRef.current;
+            if (message.candidate && message.from === cameraId && negotiation) {
+              console.log('Browser received ICE candidate from phone');
+              try {
+                await negotiation.handleCandidate(message.candidate);
+                console.log('Browser added ICE candidate successfully');
+              } catch (error) {
+                console.error('Error adding ICE candidate:', error);
+                // Attempt ICE restart on repeated failures
+                if (iceFailureCount.current > 3) {
+                  console.log('Multiple ICE failures detected, attempting restart...');
+                  restartIce();
                 }
               }
-              break;
-              
-            case 'detection-result':
-              handleDetectionResult(message.data);
-              break;
+            }
+            break;
           }
-        };
-
-        websocket.onerror = (error) => {
-          console.error('WebSocket error:', error);
-          // Attempt reconnection with exponential backoff
-          setTimeout(() => {
-            if (reconnectAttempts.current < 5) {
-              reconnectAttempts.current++;
-              console.log(`Reconnection attempt ${reconnectAttempts.current}/5`);
-              initializeWebRTC();
+            
+          case 'detection-result':
+            handleDetectionResult(message.data);
+            break;
+
+          case 'peer-disconnected':
+            if (message.peerId === cameraId) {
+              // The phone's socket dropped; it has a while to resume before peer-left
+              console.log(`Watched phone disconnected (${message.reason}), waiting for it to resume`);
+              onConnectionChange('connecting');
             }
-          }, Math.pow(2, reconnectAttempts.current) * 1000);
-        };
+            break;
 
-        websocket.onclose = (event) => {
-          console.log('Browser WebSocket closed:', event.code, event.reason);
-          onConnectionChange('disconnected');
-        };
+          case 'peer-resumed':
+            if (message.peerId === cameraId) {
+              console.log('Watched phone resumed its session');
+              renegotiate();
+            }
+            break;
+
+          case 'peer-left':
+            if (message.peerId === cameraId) {
+              // Sent as soon as the server gives up on the phone, including
+              // heartbeat timeouts, so the tile does not wait for ICE to fail
+              console.log(`Watched phone left the room (${message.reason ?? 'closed'})`);
+              onConnectionChange('disconnected');
+            }
+            break;
+        }
+      };
 
-      } catch (error) {
-        console.error('WebRTC initialization failed:', error);
-        onConnectionChange('disconnected');
-      }
+      websocket.onerror = (error) => {
+        console.error('WebSocket error:', error);
+      };
+
+      // Reconnect with backoff and resume the session; the peer connection is
+      // kept, so video that is still flowing is not interrupted
+      websocket.onclose = (event) => {
+        console.log('Browser WebSocket closed:', event.code, event.reason);
+        if (websocketRef.current !== websocket) return;
+
+        if (peerConnectionRef.current?.connectionState !== 'connected') {
+          onConnectionChange('connecting');
+        }
+        const delay = reconnectDelay(reconnectAttempts.current++);
+        console.log(`Reconnection attempt ${reconnectAttempts.current} in ${Math.round(delay)}ms`);
+        reconnectTimerRef.current = setTimeout(connectSignaling, delay);
+      };
     };
 
-    const restartIce = async () => {
-      if (!peerConnectionRef.current) return;
-      
-      try {
-        console.log('Restarting ICE connection...');
-        await peerConnectionRef.current.restartIce();
-      } catch (error) {
-        console.error('ICE restart failed:', error);
-        // Fallback: reinitialize entire connection
-        initializeWebRTC();
-      }
+    // Renegotiates through signaling (an offer with iceRestart), whatever the phone is doing
+    const restartIce = () => {
+      if (!negotiationRef.current) return;
+
+      console.log('Restarting ICE connection...');
+      negotiationRef.current.restartIce();
     };
 
     const initializeDetectionEngine = async () => {
+      const generation = generationRef.current;
+      const engine = new ObjectDetectionEngine(isServerMode, modelId, { tiling, mock });
       try {
-        detectionEngineRef.current = new ObjectDetectionEngine(isServerMode);
-        await detectionEngineRef.current.initialize();
+        detectionEngineRef.current = engine;
+        await engine.initialize();
       } catch (error) {
         console.error('Detection engine initialization failed:', error);
       }
+
+      // Cleaned up while loading: initialize may have created a worker or a
+      // fallback detector after cleanup released the engine
+      if (generation !== generationRef.current) {
+        engine.cleanup();
+      }
     };
 
     const initializeMetricsCollector = () => {
       metricsCollectorRef.current = new MetricsCollector();
       
-      // Update metrics every second
-      setInterval(() => {
-        if (metricsCollectorRef.current) {
-          const metrics = metricsCollectorRef.current.getMetrics();
-          onMetricsUpdate(metrics);
-        }
-      }, 1000);
-      
-      // Update bandwidth stats every 2 seconds
-      setInterval(() => {
-        updateBandwidthStats();
-      }, 2000);
+      metricsTimersRef.current = [
+        // Update metrics every second
+        setInterval(() => {
+          if (metricsCollectorRef.current) {
+            const metrics = metricsCollectorRef.current.getMetrics();
+            onMetricsUpdate(metrics);
+          }
+        }, 1000),
+
+        // Update bandwidth stats every 2 seconds
+        setInterval(() => {
+          updateBandwidthStats();
+        }, 2000)
+      ];
+    };
+
+    const stopProcessing = () => {
+      if (processingLoopRef.current) {
+        cancelAnimationFrame(processingLoopRef.current.frameRequest);
+        processingLoopRef.current = null;
+      }
     };
 
     const startProcessing = () => {
+      stopProcessing();
+
       if (!videoRef.current || !canvasRef.current || !detectionEngineRef.current) {
         console.log('Cannot start processing - missing components:', {
           video: !!videoRef.current,
@@ -265,55 +438,82 @@ export const WebRTCStream = forwardRef<HTMLVideoElement, WebRTCStreamProps>(
         return;
       }
 
+      if (isServerMode && serverTransport === 'webrtc') {
+        // The server decodes the phone's video itself and pushes detection-result messages
+        console.log('Server peer handles detection; not uploading frames');
+        return;
+      }
+
       console.log('Starting object detection processing...');
       
       // Throttle detection to 8 fps for better visualization
       const DETECTION_INTERVAL = 125; // 125ms = ~8 fps
       let lastDetectionTime = 0;
       let isProcessing = false;
+      const gate = motionGate ? new MotionGate(motionGate) : null;
+      // Results for streamed frames arrive later as detection-result messages
+      const streamsOverWebSocket = isServerMode && serverTransport === 'websocket';
+      const loop = { frameRequest: 0 };
+      processingLoopRef.current = loop;
 
       const processFrame = async () => {
+        if (processingLoopRef.current !== loop) return;
         if (!videoRef.current || !detectionEngineRef.current) return;
 
         const now = Date.now();
-        const shouldRunDetection = (now - lastDetectionTime) >= DETECTION_INTERVAL && !isProcessing;
+        let shouldRunDetection = (now - lastDetectionTime) >= DETECTION_INTERVAL && !isProcessing;
+
+        if (shouldRunDetection && gate && !gate.shouldInfer(videoRef.current, now)) {
+          // Static scene: keep showing the last result instead of re-running inference
+          lastDetectionTime = now;
+          shouldRunDetection = false;
+          metricsCollectorRef.current?.recordSkippedFrame();
+          // ...on the phone too, whose overlay clears when results stop coming
+          if (lastPhoneResultRef.current) {
+            sendDetectionsToPhone(lastPhoneResultRef.current);
+          }
+        }
 
         if (shouldRunDetection) {
           isProcessing = true;
           lastDetectionTime = now;
 
-          const canvas = canvasRef.current!;
-          const ctx = canvas.getContext('2d')!;
-          
           // Capture frame
           const captureTs = Date.now();
-          canvas.width = videoRef.current.videoWidth;
-          canvas.height = videoRef.current.videoHeight;
-          ctx.drawImage(videoRef.current, 0, 0);
 
           try {
+
             let detections;
             
             if (isServerMode) {
-              // Send frame to server for inference
-              const imageData = canvas.toDataURL('image/jpeg', 0.8);
-              detections = await sendFrameToServer(imageData, captureTs);
+              const canvas = canvasRef.current!;
+              const ctx = canvas.getContext('2d')!;
+              canvas.width = videoRef.current.videoWidth;
+              canvas.height = videoRef.current.videoHeight;
+              ctx.drawImage(videoRef.current, 0, 0);
+
+              // Send frame to server for inference, over HTTP if the socket is unavailable
+              if (!streamsOverWebSocket || !(await sendFrameOverWebSocket(canvas, captureTs))) {
+                detections = await sendFrameToServer(canvas, captureTs);
+              }
             } else {
-              // Process frame locally with WASM
-              const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-              detections = await detectionEngineRef.current.detectObjects(imageData, captureTs);
+              // Hand the frame to the detection worker as a transferable bitmap
+              const frame = await createImageBitmap(videoRef.current);
+              detections = await detectionEngineRef.current.detectObjects(frame, captureTs);
             }
 
             if (detections) {
+              detections = stabilizeResult(detections);
               const detectionArray = detections.detections || [];
               console.log('Detection results:', detectionArray.length, 'objects found');
               onDetections(detectionArray);
+              sendDetectionsToPhone(detections);
               
               // Record metrics
               if (metricsCollectorRef.current) {
                 metricsCollectorRef.current.recordFrame(detections);
               }
-            } else {
+            } else if (!streamsOverWebSocket) {
               console.log('No detections returned');
             }
           } catch (error) {
@@ -323,24 +523,73 @@ export const WebRTCStream = forwardRef<HTMLVideoElement, WebRTCStreamProps>(
           }
         }
 
-        // Continue animation loop for smooth video
-        requestAnimationFrame(processFrame);
+        // Continue animation loop for smooth video, unless a newer loop replaced this one
+        if (processingLoopRef.current === loop) {
+          loop.frameRequest = requestAnimationFrame(processFrame);
+        }
       };
 
-      requestAnimationFrame(processFrame);
+      loop.frameRequest = requestAnimationFrame(processFrame);
     };
 
-    const sendFrameToServer = async (imageData: string, captureTs: number): Promise<DetectionResult | null> => {
+    // Returns false when the frame could not be streamed and should go over HTTP
+    const sendFrameOverWebSocket = async (canvas: HTMLCanvasElement, captureTs: number): Promise<boolean> => {
+      const websocket = websocketRef.current;
+      if (!websocket || websocket.readyState !== WebSocket.OPEN) return false;
+
+      // The uplink is congested: drop this frame, the server only wants the latest one anyway
+      if (websocket.bufferedAmount > MAX_WEBSOCKET_BUFFERED_BYTES) return true;
+
+      const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', 0.8));
+      if (!blob) return false;
+
+      websocket.send(encodeFrameMessage(blob, `frame_${captureTs}`, captureTs));
+      return true;
+    };
+
+    // Frames go to the server as raw JPEG bytes; servers that do not accept
+    // binary uploads get the base64 JSON body instead for the rest of the session
+    const sendFrameToServer = async (canvas: HTMLCanvasElement, captureTs: number): Promise<DetectionResult | null> => {
+      const frameId = `frame_${captureTs}`;
+
       try {
+        if (binaryUploadRef.current) {
+          const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', 0.8));
+
+          if (blob) {
+            const response = await fetch('/api/detect', {
+              method: 'POST',
+              headers: {
+                'Content-Type': 'application/octet-stream',
+                'X-Frame-Id': frameId,
+                'X-Capture-Ts': String(captureTs),
+                'X-Camera-Id': cameraId
+              },
+              body: blob
+            });
+
+            if (response.ok) {
+              return await response.json();
+            }
+            if (response.status !== 400 && response.status !== 413 && response.status !== 415) {
+              throw new Error(`Detection request failed with status ${response.status}`);
+            }
+          }
+
+          console.warn('Binary frame upload not accepted, falling back to JSON');
+          binaryUploadRef.current = false;
+        }
+
         const response = await fetch('/api/detect', {
           method: 'POST',
           headers: {
             'Content-Type': 'application/json',
           },
           body: JSON.stringify({
-            image: imageData,
+            image: canvas.toDataURL('image/jpeg', 0.8),
             capture_ts: captureTs,
-            frame_id: `frame_${captureTs}`
+            frame_id: frameId,
+            camera_id: cameraId
           })
         });
 
@@ -351,8 +600,24 @@ export const WebRTCStream = forwardRef<HTMLVideoElement, WebRTCStreamProps>(
       }
     };
 
+    // Assign persistent track IDs and smooth boxes over time, regardless of
+    // which backend produced the result
+    const stabilizeResult = (result: DetectionResult): DetectionResult => {
+      return smootherRef.current.update(trackerRef.current.update(result));
+    };
+
+    const sendDetectionsToPhone = (result: DetectionResult) => {
+      lastPhoneResultRef.current = result;
+      const channel = detectionChannelRef.current;
+      if (channel && channel.readyState === 'open') {
+        channel.send(encodeServerMessage({ type: 'detection-result', data: result }));
+      }
+    };
+
     const handleDetectionResult = (result: DetectionResult) => {
+      result = stabilizeResult(result);
       onDetections(result.detections || []);
+      sendDetectionsToPhone(result);
       
       if (metricsCollectorRef.current) {
         metricsCollectorRef.current.recordFrame(result);
@@ -361,7 +626,9 @@ export const WebRTCStream = forwardRef<HTMLVideoElement, WebRTCStreamProps>(
 
     const cleanup = () => {
       console.log('Cleaning up WebRTC stream...');
-      
+      generationRef.current++;
+      stopProcessing();
+
       // Stop video stream
       if (videoRef.current && videoRef.current.srcObject) {
         const stream = videoRef.current.srcObject as MediaStream;
@@ -376,21 +643,35 @@ export const WebRTCStream = forwardRef<HTMLVideoElement, WebRTCStreamProps>(
       if (peerConnectionRef.current) {
         peerConnectionRef.current.close();
         peerConnectionRef.current = null;
+        negotiationRef.current = null;
+        detectionChannelRef.current = null;
+        lastPhoneResultRef.current = null;
         console.log('Closed peer connection');
       }
       
-      // Close WebSocket
+      // Close WebSocket; a deliberate close ends the session on the server
+      if (reconnectTimerRef.current) {
+        clearTimeout(reconnectTimerRef.current);
+        reconnectTimerRef.current = null;
+      }
       if (websocketRef.current) {
-        websocketRef.current.close();
+        websocketRef.current.onclose = null;
+        websocketRef.current.close(1000);
         websocketRef.current = null;
         console.log('Closed WebSocket');
       }
+      sessionIdRef.current = null;
       
+      metricsTimersRef.current.forEach(timer => clearInterval(timer));
+      metricsTimersRef.current = [];
+
       // Cleanup detection engine
       if (detectionEngineRef.current) {
         detectionEngineRef.current.cleanup();
         detectionEngineRef.current = null;
       }
+      trackerRef.current.reset();
+      smootherRef.current.reset();
       
       // Reset connection state
       onConnectionChange('disconnected');
@@ -0,0 +1,131 @@
+import * as React from 'react';
+import { PROTOCOL_VERSION, Camera, encodeClientMessage, parseServerMessage } from '../../shared/signalingProtocol.mjs';
+import { reconnectDelay, signalingUrl } from '../lib/reconnect';
+
+// Single-use code a phone needs to join this viewer's room
+export interface PairingCode {
+  token: string;
+  pin: string;
+  expiresAt: number;
+}
+
+// Request a fresh code this long before the current one expires
+const PAIRING_REFRESH_MARGIN_MS = 10000;
+
+/**
+ * Room-level signaling for the dashboard: creates (or, with initialRoomId and
+ * that room's viewer key, joins) a room, keeps a valid pairing code for the next phone and tracks the
+ * phones that have joined. Video is negotiated separately by one
+ * WebRTCStream per camera. A dropped socket reconnects with backoff and
+ * resumes its session, so the room survives brief network loss.
+ */
+export function useSignalingRoom(initialRoomId: string | null, initialViewerKey: string | null) {
+  const [roomId, setRoomId] = React.useState<string | null>(null);
+  // Needed by every other viewer of the room, including this dashboard's camera tiles
+  const [viewerKey, setViewerKey] = React.useState<string | null>(null);
+  const [accessError, setAccessError] = React.useState<string | null>(null);
+  const [pairing, setPairing] = React.useState<PairingCode | null>(null);
+  const [cameras, setCameras] = React.useState<Camera[]>([]);
+
+  React.useEffect(() => {
+    let websocket: WebSocket;
+    let pairingRefreshTimer: ReturnType<typeof setTimeout> | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+    let reconnectAttempts = 0;
+    // Issued in room-joined; presented on reconnect to resume the same session
+    let sessionId: string | null = null;
+    // Rejoined after an expired session, so phones' QR codes keep working
+    let joinedRoomId = initialRoomId;
+    let joinedViewerKey = initialViewerKey;
+
+    const requestPairing = () => {
+      if (websocket.readyState === WebSocket.OPEN) {
+        websocket.send(encodeClientMessage({ type: 'create-pairing' }));
+      }
+    };
+
+    const connect = () => {
+      websocket = new WebSocket(signalingUrl());
+
+      websocket.onopen = () => {
+        websocket.send(encodeClientMessage({
+          type: 'join',
+          version: PROTOCOL_VERSION,
+          role: 'browser',
+          roomId: joinedRoomId,
+          viewerKey: joinedViewerKey,
+          sessionId
+        }));
+      };
+
+      websocket.onmessage = (event) => {
+        const { message, error } = parseServerMessage(event.data);
+        if (error) {
+          console.error('Ignoring malformed signaling message:', error.message);
+          return;
+        }
+
+        switch (message.type) {
+          case 'room-joined':
+            console.log(`Dashboard ${message.resumed ? 'resumed its session in' : 'joined'} room`, message.roomId);
+            sessionId = message.sessionId;
+            joinedRoomId = message.roomId;
+            joinedViewerKey = message.viewerKey ?? joinedViewerKey;
+            reconnectAttempts = 0;
+            setRoomId(message.roomId);
+            setViewerKey(joinedViewerKey);
+            setAccessError(null);
+            // Codes issued before a drop may have been used meanwhile
+            requestPairing();
+            break;
+
+          case 'pairing-created': {
+            setPairing({ token: message.token, pin: message.pin, expiresAt: message.expiresAt });
+            // Keep the QR code valid for as long as the dashboard is open
+            if (pairingRefreshTimer) clearTimeout(pairingRefreshTimer);
+            const refreshIn = Math.max(0, message.expiresAt - Date.now() - PAIRING_REFRESH_MARGIN_MS);
+            pairingRefreshTimer = setTimeout(requestPairing, refreshIn);
+            break;
+          }
+
+          case 'pairing-used':
+            // Codes are single-use; issue the next one right away
+            requestPairing();
+            break;
+
+          case 'cameras':
+            setCameras(message.cameras);
+            break;
+
+          case 'error':
+            console.error(`Signaling error (${message.code}):`, message.message);
+            if (message.code === 'viewer-key-rejected') {
+              // Retrying with the same link cannot succeed
+              setAccessError(message.message);
+              websocket.onclose = null;
+              websocket.close(1000);
+            }
+            break;
+        }
+      };
+
+      websocket.onclose = (event) => {
+        console.log('Dashboard WebSocket closed:', event.code, event.reason);
+        const delay = reconnectDelay(reconnectAttempts++);
+        reconnectTimer = setTimeout(connect, delay);
+      };
+    };
+
+    connect();
+
+    return () => {
+      if (pairingRefreshTimer) clearTimeout(pairingRefreshTimer);
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      // A deliberate close ends the session on the server instead of holding it
+      websocket.onclose = null;
+      websocket.close(1000);
+    };
+  }, [initialRoomId, initialViewerKey]);
+
+  return { roomId, viewerKey, accessError, pairing, cameras };
+}
@@ -0,0 +1,156 @@
+import { Detection, DetectionResult } from './objectDetection';
+import { TrackedDetection } from './objectTracker';
+
+export type SmoothingMethod = 'none' | 'ema' | 'kalman';
+
+export interface SmoothingConfig {
+  method: SmoothingMethod;
+  // EMA: weight of the newest box (0..1); higher follows motion faster
+  alpha: number;
+  // Kalman: per-frame process noise and measurement noise, in normalized units squared
+  processNoise: number;
+  measurementNoise: number;
+  // Hysteresis: consecutive frames a track must be seen before it is shown...
+  minHits: number;
+  // ...and frames it keeps being shown (coasting on its velocity) after it is lost
+  maxMisses: number;
+}
+
+export const DEFAULT_SMOOTHING_CONFIG: SmoothingConfig = {
+  method: 'ema',
+  alpha: 0.6,
+  processNoise: 1e-4,
+  measurementNoise: 1e-3,
+  minHits: 2,
+  maxMisses: 3
+};
+
+type Coordinate = 'xmin' | 'ymin' | 'xmax' | 'ymax';
+const COORDINATES: Coordinate[] = ['xmin', 'ymin', 'xmax', 'ymax'];
+
+interface SmoothedTrack {
+  detection: TrackedDetection;
+  // Kalman estimate variance per coordinate
+  variance: Record<Coordinate, number>;
+  hits: number;
+  misses: number;
+  visible: boolean;
+  lastTs: number;
+}
+
+/**
+ * Stabilizes tracked detections over time. Boxes and scores of each track are
+ * filtered (EMA or a per-coordinate Kalman filter), new tracks only appear
+ * after `minHits` consecutive frames, and lost tracks linger for `maxMisses`
+ * frames so a single missed detection does not make the overlay flicker.
+ * Expects detections that already carry `track_id` (see ObjectTracker);
+ * untracked detections pass through unchanged.
+ */
+export class DetectionSmoother {
+  private config: SmoothingConfig;
+  private tracks = new Map<number, SmoothedTrack>();
+
+  constructor(config: Partial<SmoothingConfig> = {}) {
+    this.config = { ...DEFAULT_SMOOTHING_CONFIG, ...config };
+  }
+
+  update(result: DetectionResult): DetectionResult {
+    const timestamp = result.capture_ts;
+    const output: Detection[] = [];
+    const seen = new Set<number>();
+
+    for (const detection of result.detections || []) {
+      const trackId = (detection as TrackedDetection).track_id;
+      if (trackId === undefined) {
+        output.push(detection);
+        continue;
+      }
+
+      seen.add(trackId);
+      const existing = this.tracks.get(trackId);
+
+      if (existing) {
+        this.correct(existing, detection as TrackedDetection, timestamp);
+      } else {
+        const initialVariance = this.config.measurementNoise;
+        this.tracks.set(trackId, {
+          detection: detection as TrackedDetection,
+          variance: { xmin: initialVariance, ymin: initialVariance, xmax: initialVariance, ymax: initialVariance },
+          hits: 1,
+          misses: 0,
+          visible: this.config.minHits <= 1,
+          lastTs: timestamp
+        });
+      }
+    }
+
+    for (const [trackId, track] of this.tracks) {
+      if (!seen.has(trackId)) {
+        track.misses++;
+        track.hits = 0;
+
+        if (!track.visible || track.misses > this.config.maxMisses) {
+          this.tracks.delete(trackId);
+          continue;
+        }
+
+        this.coast(track, timestamp);
+      }
+
+      if (track.visible) {
+        output.push(track.detection);
+      }
+    }
+
+    return { ...result, detections: output };
+  }
+
+  reset(): void {
+    this.tracks.clear();
+  }
+
+  private correct(track: SmoothedTrack, measurement: TrackedDetection, timestamp: number): void {
+    const previous = track.detection;
+    const next: TrackedDetection = { ...measurement };
+    const { method, alpha, processNoise, measurementNoise } = this.config;
+
+    for (const coordinate of COORDINATES) {
+      if (method === 'ema') {
+        next[coordinate] = alpha * measurement[coordinate] + (1 - alpha) * previous[coordinate];
+      } else if (method === 'kalman') {
+        // Random-walk model: predict by inflating the variance, then blend by the Kalman gain
+        const predictedVariance = track.variance[coordinate] + processNoise;
+        const gain = predictedVariance / (predictedVariance + measurementNoise);
+        next[coordinate] = previous[coordinate] + gain * (measurement[coordinate] - previous[coordinate]);
+        track.variance[coordinate] = (1 - gain) * predictedVariance;
+      }
+    }
+
+    if (method !== 'none') {
+      next.score = alpha * measurement.score + (1 - alpha) * previous.score;
+    }
+
+    track.detection = next;
+    track.hits++;
+    track.misses = 0;
+    track.lastTs = timestamp;
+    if (track.hits >= this.config.minHits) {
+      track.visible = true;
+    }
+  }
+
+  private coast(track: SmoothedTrack, timestamp: number): void {
+    const dt = (timestamp - track.lastTs) / 1000;
+    const { vx, vy } = track.detection.velocity;
+    const clamp = (v: number) => Math.max(0, Math.min(1, v));
+
+    track.detection = {
+      ...track.detection,
+      xmin: clamp(track.detection.xmin + vx * dt),
+      xmax: clamp(track.detection.xmax + vx * dt),
+      ymin: clamp(track.detection.ymin + vy * dt),
+      ymax: clamp(track.detection.ymax + vy * dt)
+    };
+    track.lastTs = timestamp;
+  }
+}
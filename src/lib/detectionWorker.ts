@@ -0,0 +1,46 @@
+import {
+  WasmDetector,
+  bitmapToImageData,
+  DetectionWorkerRequest,
+  DetectionWorkerResponse
+} from './objectDetection';
+
+// Dedicated worker hosting the WASM detector. The main thread talks to it
+// through ObjectDetectionEngine; frames arrive as transferred ImageBitmaps.
+const ctx = self as unknown as Worker;
+let detector: WasmDetector | null = null;
+
+const respond = (response: DetectionWorkerResponse) => ctx.postMessage(response);
+
+ctx.onmessage = async (event: MessageEvent<DetectionWorkerRequest>) => {
+  const request = event.data;
+
+  try {
+    switch (request.type) {
+      case 'init': {
+        detector?.cleanup();
+        detector = new WasmDetector(request.modelId, request.options);
+        await detector.initialize();
+        respond({ type: 'ready', id: request.id });
+        break;
+      }
+
+      case 'detect': {
+        if (!detector) {
+          request.frame.close();
+          throw new Error('Detector not initialized');
+        }
+        const imageData = bitmapToImageData(request.frame);
+        const result = await detector.detectObjects(imageData, request.captureTs);
+        respond({ type: 'result', id: request.id, result });
+        break;
+      }
+    }
+  } catch (error) {
+    respond({
+      type: 'error',
+      id: request.id,
+      message: error instanceof Error ? error.message : String(error)
+    });
+  }
+};
@@ -0,0 +1,48 @@
+const ICE_CONFIG_URL = '/api/ice-config';
+
+// Served by the backend from its ICE_* settings (see server/iceConfig.js)
+export interface IceConfig {
+  // Empty for host-only ICE
+  iceServers: RTCIceServer[];
+  // When the TURN credentials in iceServers expire (ms), if they are time-limited
+  expiresAt: number | null;
+}
+
+// Used when the backend cannot be asked, e.g. the frontend dev server running alone
+const FALLBACK_ICE_SERVERS: RTCIceServer[] = [
+  { urls: 'stun:stun.l.google.com:19302' },
+  { urls: 'stun:stun1.l.google.com:19302' }
+];
+
+// Fetch new TURN credentials this long before the current ones expire
+const REFRESH_MARGIN_MS = 60 * 1000;
+
+let cachedConfig: IceConfig | null = null;
+
+/**
+ * ICE servers for a new RTCPeerConnection. The config is fetched once and
+ * reused until its TURN credentials are about to expire.
+ */
+export async function fetchIceServers(): Promise<RTCIceServer[]> {
+  if (cachedConfig && (cachedConfig.expiresAt === null || cachedConfig.expiresAt - REFRESH_MARGIN_MS > Date.now())) {
+    return cachedConfig.iceServers;
+  }
+
+  try {
+    const response = await fetch(ICE_CONFIG_URL, { cache: 'no-store' });
+    if (!response.ok) {
+      throw new Error(`ICE config request failed: ${response.status}`);
+    }
+
+    const config = await response.json() as IceConfig;
+    if (!Array.isArray(config.iceServers)) {
+      throw new Error('ICE config has no iceServers list');
+    }
+
+    cachedConfig = config;
+    return config.iceServers;
+  } catch (error) {
+    console.warn('Using fallback STUN servers:', error);
+    return FALLBACK_ICE_SERVERS;
+  }
+}
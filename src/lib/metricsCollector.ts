@@ -4,6 +4,9 @@ export interface DetectionResult {
   recv_ts: number;
   inference_ts: number;
   detections?: any[];
+  inference_mode?: string;
+  inference_passes?: number;
+  inference_ms?: number;
 }
 
 export interface FrameMetrics {
@@ -15,12 +18,22 @@ export interface FrameMetrics {
   e2e_latency: number;
   server_latency: number;
   network_latency: number;
+  inference_mode?: string;
+  inference_passes?: number;
+  inference_ms?: number;
+}
+
+export interface InferenceStats {
+  mode: string;
+  avgMs: number;
+  passes: number;
 }
 
 export interface MetricsExport {
   timestamp: string;
   duration_seconds: number;
   total_frames: number;
+  skipped_frames: number;
   processed_fps: number;
   latency: {
     median_ms: number;
@@ -30,6 +43,11 @@ export interface MetricsExport {
     uplink_kbps: number;
     downlink_kbps: number;
   };
+  inference: {
+    mode: string;
+    avg_ms: number;
+    passes_per_frame: number;
+  } | null;
   frame_details: FrameMetrics[];
 }
 
@@ -37,6 +55,7 @@ export class MetricsCollector {
   private frameMetrics: FrameMetrics[] = [];
   private startTime: number;
   private processedFrames = 0;
+  private skippedFrames = 0;
   private bandwidthStats = { uplink: 0, downlink: 0 };
 
   constructor() {
@@ -57,7 +76,10 @@ export class MetricsCollector {
       display_ts: displayTs,
       e2e_latency: e2eLatency,
       server_latency: serverLatency,
-      network_latency: networkLatency
+      network_latency: networkLatency,
+      inference_mode: detectionResult.inference_mode,
+      inference_passes: detectionResult.inference_passes,
+      inference_ms: detectionResult.inference_ms
     };
 
     this.frameMetrics.push(metrics);
@@ -69,6 +91,11 @@ export class MetricsCollector {
     }
   }
 
+  // Frames where inference was skipped because the scene had not changed
+  recordSkippedFrame(): void {
+    this.skippedFrames++;
+  }
+
   getMetrics() {
     const currentTime = Date.now();
     const elapsedSeconds = (currentTime - this.startTime) / 1000;
@@ -88,7 +115,26 @@ export class MetricsCollector {
       fps: fps || 0,
       bandwidth: this.bandwidthStats,
       totalFrames: this.processedFrames,
-      elapsedTime: elapsedSeconds
+      skippedFrames: this.skippedFrames,
+      elapsedTime: elapsedSeconds,
+      inference: this.getInferenceStats()
+    };
+  }
+
+  // Average inference cost of the most recent mode, so tiled and full-frame
+  // runs can be compared after switching between them
+  private getInferenceStats(): InferenceStats | null {
+    const timed = this.frameMetrics.filter(f => f.inference_ms !== undefined);
+    if (timed.length === 0) return null;
+
+    const mode = timed[timed.length - 1].inference_mode || 'unknown';
+    const sameMode = timed.filter(f => f.inference_mode === timed[timed.length - 1].inference_mode);
+    const average = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+    return {
+      mode,
+      avgMs: average(sameMode.map(f => f.inference_ms!)),
+      passes: average(sameMode.map(f => f.inference_passes || 0))
     };
   }
 
@@ -113,6 +159,7 @@ export class MetricsCollector {
     this.frameMetrics = [];
     this.startTime = Date.now();
     this.processedFrames = 0;
+    this.skippedFrames = 0;
     this.bandwidthStats = { uplink: 0, downlink: 0 };
   }
 
@@ -123,6 +170,7 @@ export class MetricsCollector {
       timestamp: new Date().toISOString(),
       duration_seconds: metrics.elapsedTime,
       total_frames: metrics.totalFrames,
+      skipped_frames: metrics.skippedFrames,
       processed_fps: metrics.fps,
       latency: {
         median_ms: metrics.latency.median,
@@ -132,6 +180,11 @@ export class MetricsCollector {
         uplink_kbps: metrics.bandwidth.uplink,
         downlink_kbps: metrics.bandwidth.downlink
       },
+      inference: metrics.inference && {
+        mode: metrics.inference.mode,
+        avg_ms: metrics.inference.avgMs,
+        passes_per_frame: metrics.inference.passes
+      },
       frame_details: this.frameMetrics.slice(-10) // Last 10 frames
     };
   }
@@ -0,0 +1,16 @@
+import { MockScenario, validateMockScenario } from '../../shared/mockScenario.mjs';
+
+export { MockDetector } from '../../shared/mockScenario.mjs';
+
+export interface MockOptions {
+  seed?: number;
+  scenarioUrl?: string;
+}
+
+export async function loadMockScenario(url: string): Promise<MockScenario> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Mock scenario not found: ${response.status}`);
+  }
+  return validateMockScenario(await response.json());
+}
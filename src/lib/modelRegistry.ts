@@ -0,0 +1,33 @@
+import { ModelManifest, ModelRegistry, normalizeManifest, normalizeModelRegistry } from '../../shared/modelManifest.mjs';
+
+const MODELS_BASE_URL = '/models';
+const REGISTRY_URL = `${MODELS_BASE_URL}/registry.json`;
+
+export interface ResolvedModelManifest extends ModelManifest {
+  modelUrl: string;
+}
+
+export async function fetchModelRegistry(): Promise<ModelRegistry> {
+  const response = await fetch(REGISTRY_URL);
+  if (!response.ok) {
+    throw new Error(`Model registry not found: ${response.status}`);
+  }
+
+  return normalizeModelRegistry(await response.json());
+}
+
+export async function loadModelManifest(modelId?: string): Promise<ResolvedModelManifest> {
+  const id = modelId || (await fetchModelRegistry()).default;
+  const manifestUrl = `${MODELS_BASE_URL}/${encodeURIComponent(id)}/model.json`;
+
+  const response = await fetch(manifestUrl);
+  if (!response.ok) {
+    throw new Error(`Model manifest not found for '${id}': ${response.status}`);
+  }
+
+  const manifest = normalizeManifest(id, await response.json());
+  return {
+    ...manifest,
+    modelUrl: new URL(manifest.model, new URL(manifestUrl, location.href)).toString()
+  };
+}
@@ -0,0 +1,80 @@
+export interface MotionGateConfig {
+  // Mean absolute luma difference (0-255) below which a frame counts as static
+  threshold: number;
+  // Run inference at least this often even when the scene looks static
+  maxSkipMs: number;
+  // Size of the downscaled thumbnail the difference is computed on
+  sampleWidth: number;
+  sampleHeight: number;
+}
+
+export const DEFAULT_MOTION_GATE_CONFIG: MotionGateConfig = {
+  threshold: 4,
+  maxSkipMs: 2000,
+  sampleWidth: 64,
+  sampleHeight: 48
+};
+
+/**
+ * Cheap scene-change check run before inference. Each frame is reduced to a
+ * small grayscale thumbnail and compared with the thumbnail of the last frame
+ * that was actually inferred; if the difference stays under the threshold
+ * the caller can skip inference and keep showing the previous result.
+ */
+export class MotionGate {
+  private config: MotionGateConfig;
+  private canvas: HTMLCanvasElement;
+  private ctx: CanvasRenderingContext2D;
+  private reference: Float32Array | null = null;
+  private lastInferenceTs = 0;
+
+  constructor(config: Partial<MotionGateConfig> = {}) {
+    this.config = { ...DEFAULT_MOTION_GATE_CONFIG, ...config };
+    this.canvas = document.createElement('canvas');
+    this.canvas.width = this.config.sampleWidth;
+    this.canvas.height = this.config.sampleHeight;
+    this.ctx = this.canvas.getContext('2d', { willReadFrequently: true })!;
+  }
+
+  /**
+   * Returns true when the frame should go through inference. A frame that
+   * passes becomes the new reference for later comparisons.
+   */
+  shouldInfer(source: CanvasImageSource, now: number): boolean {
+    const sample = this.sample(source);
+
+    const isStale = now - this.lastInferenceTs >= this.config.maxSkipMs;
+    if (!this.reference || isStale || this.difference(sample, this.reference) >= this.config.threshold) {
+      this.reference = sample;
+      this.lastInferenceTs = now;
+      return true;
+    }
+
+    return false;
+  }
+
+  reset(): void {
+    this.reference = null;
+    this.lastInferenceTs = 0;
+  }
+
+  private sample(source: CanvasImageSource): Float32Array {
+    const { sampleWidth, sampleHeight } = this.config;
+    this.ctx.drawImage(source, 0, 0, sampleWidth, sampleHeight);
+    const { data } = this.ctx.getImageData(0, 0, sampleWidth, sampleHeight);
+
+    const luma = new Float32Array(sampleWidth * sampleHeight);
+    for (let i = 0; i < luma.length; i++) {
+      luma[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+    }
+    return luma;
+  }
+
+  private difference(a: Float32Array, b: Float32Array): number {
+    let total = 0;
+    for (let i = 0; i < a.length; i++) {
+      total += Math.abs(a[i] - b[i]);
+    }
+    return total / a.length;
+  }
+}
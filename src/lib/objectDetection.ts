@@ -1,3 +1,9 @@
+import type { InferenceSession, Tensor } from 'onnxruntime-web';
+import { loadMockScenario, MockDetector, MockOptions } from './mockDetector';
+import { loadModelManifest, ResolvedModelManifest } from './modelRegistry';
+import { ResizeMode } from '../../shared/modelManifest.mjs';
+import { FrameTransform, decodeModelOutputs, nonMaxSuppression, unprojectDetection } from '../../shared/detectionDecoders.mjs';
+
 export interface Detection {
   label: string;
   score: number;
@@ -7,26 +13,91 @@ export interface Detection {
   ymax: number;
 }
 
+export type InferenceMode = 'full' | 'tiled' | 'mock';
+
 export interface DetectionResult {
   frame_id: string;
   capture_ts: number;
   recv_ts: number;
   inference_ts: number;
   detections: Detection[];
+  // Cost of producing this result; only reported by the WASM engine
+  inference_mode?: InferenceMode;
+  inference_passes?: number;
+  inference_ms?: number;
+}
+
+/**
+ * Sliced inference: the frame is split into a rows x cols grid of tiles that
+ * overlap by `overlap` (a fraction of the tile size), each tile is run
+ * through the model, and results are merged with cross-tile NMS.
+ * `includeFullFrame` adds one pass over the whole frame so large objects
+ * spanning several tiles are still found.
+ */
+export interface TilingConfig {
+  rows: number;
+  cols: number;
+  overlap: number;
+  includeFullFrame: boolean;
+}
+
+export interface DetectionOptions {
+  tiling?: Partial<TilingConfig> | null;
+  // Use the deterministic mock backend instead of loading a model
+  mock?: MockOptions | null;
+}
+
+export const DEFAULT_TILING: TilingConfig = {
+  rows: 2,
+  cols: 2,
+  overlap: 0.2,
+  includeFullFrame: true
+};
+
+// A rectangle of the captured frame, in source pixels
+export interface FrameRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
 }
 
+// Messages exchanged with the detection worker (see detectionWorker.ts).
+// Every request carries an id that its response echoes back.
+export type DetectionWorkerRequest =
+  | { type: 'init'; id: number; modelId?: string; options?: DetectionOptions }
+  | { type: 'detect'; id: number; frame: ImageBitmap; captureTs: number };
+
+export type DetectionWorkerResponse =
+  | { type: 'ready'; id: number }
+  | { type: 'result'; id: number; result: DetectionResult | null }
+  | { type: 'error'; id: number; message: string };
+
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
+
+/**
+ * Public entry point for detection. In WASM mode inference runs in a
+ * dedicated worker so preprocessing and ONNX execution never block
+ * rendering; when workers are unavailable it falls back to running
+ * `WasmDetector` on the main thread.
+ */
 export class ObjectDetectionEngine {
-  private session: any = null;
-  private modelLoaded = false;
   private isServerMode: boolean;
-  private frameQueue: ImageData[] = [];
-  private persistentDetections: Detection[] = [];
-  private lastDetectionUpdate = 0;
-  private detectionUpdateInterval = 2000; // Update detections every 2 seconds
-  private isProcessing = false;
+  private modelId?: string;
+  private options: DetectionOptions;
+  private modelLoaded = false;
+  private worker: Worker | null = null;
+  private localDetector: WasmDetector | null = null;
+  private pendingRequests = new Map<number, {
+    resolve: (response: DetectionWorkerResponse) => void;
+    reject: (error: Error) => void;
+  }>();
+  private nextRequestId = 0;
 
-  constructor(isServerMode: boolean) {
+  constructor(isServerMode: boolean, modelId?: string, options: DetectionOptions = {}) {
     this.isServerMode = isServerMode;
+    this.modelId = modelId;
+    this.options = options;
   }
 
   async initialize(): Promise<void> {
@@ -36,35 +107,179 @@ export class ObjectDetectionEngine {
       return;
     }
 
+    try {
+      this.worker = new Worker(new URL('./detectionWorker.ts', import.meta.url), { type: 'module' });
+      this.worker.onmessage = (event: MessageEvent<DetectionWorkerResponse>) => this.handleWorkerMessage(event.data);
+      this.worker.onerror = (event) => this.handleWorkerError(event);
+
+      await this.postToWorker({ type: 'init', modelId: this.modelId, options: this.options });
+      console.log('Detection worker ready');
+    } catch (error) {
+      console.error('Detection worker unavailable, running inference on the main thread:', error);
+      this.terminateWorker();
+      this.localDetector = new WasmDetector(this.modelId, this.options);
+      await this.localDetector.initialize();
+    }
+
+    this.modelLoaded = true;
+  }
+
+  // An ImageBitmap frame is always consumed: transferred to the worker, or
+  // closed here when it is not used (e.g. before initialize() has finished)
+  async detectObjects(frame: ImageData | ImageBitmap, captureTs: number): Promise<DetectionResult | null> {
+    if (!this.modelLoaded) {
+      console.warn('Detection engine not initialized');
+      closeFrame(frame);
+      return null;
+    }
+
+    if (this.isServerMode) {
+      // This shouldn't be called in server mode
+      closeFrame(frame);
+      throw new Error('detectObjects called in server mode');
+    }
+
+    let bitmap: ImageBitmap | null = null;
+    try {
+      if (this.worker) {
+        bitmap = frame instanceof ImageData ? await createImageBitmap(frame) : frame;
+        const response = await this.postToWorker({ type: 'detect', frame: bitmap, captureTs }, [bitmap]);
+        return response.type === 'result' ? response.result : null;
+      }
+
+      const imageData = frame instanceof ImageData ? frame : bitmapToImageData(frame);
+      return await this.localDetector!.detectObjects(imageData, captureTs);
+    } catch (error) {
+      console.error('Object detection failed:', error);
+      // Closing a bitmap that already reached the worker does nothing
+      bitmap?.close();
+      closeFrame(frame);
+      return null;
+    }
+  }
+
+  private postToWorker(
+    request: DistributiveOmit<DetectionWorkerRequest, 'id'>,
+    transfer: Transferable[] = []
+  ): Promise<DetectionWorkerResponse> {
+    return new Promise((resolve, reject) => {
+      if (!this.worker) {
+        reject(new Error('Detection worker is not running'));
+        return;
+      }
+
+      const id = this.nextRequestId++;
+      this.pendingRequests.set(id, { resolve, reject });
+      this.worker.postMessage({ ...request, id }, transfer);
+    });
+  }
+
+  private handleWorkerMessage(response: DetectionWorkerResponse): void {
+    const pending = this.pendingRequests.get(response.id);
+    if (!pending) return;
+
+    this.pendingRequests.delete(response.id);
+    if (response.type === 'error') {
+      pending.reject(new Error(response.message));
+    } else {
+      pending.resolve(response);
+    }
+  }
+
+  private handleWorkerError(event: ErrorEvent): void {
+    console.error('Detection worker error:', event.message);
+    this.rejectPendingRequests(new Error(`Detection worker error: ${event.message}`));
+  }
+
+  private rejectPendingRequests(error: Error): void {
+    this.pendingRequests.forEach(({ reject }) => reject(error));
+    this.pendingRequests.clear();
+  }
+
+  private terminateWorker(): void {
+    if (this.worker) {
+      this.worker.terminate();
+      this.worker = null;
+    }
+    this.rejectPendingRequests(new Error('Detection worker terminated'));
+  }
+
+  cleanup(): void {
+    this.terminateWorker();
+    if (this.localDetector) {
+      this.localDetector.cleanup();
+      this.localDetector = null;
+    }
+    this.modelLoaded = false;
+  }
+}
+
+/**
+ * Runs ONNX inference (or mock detection when no model loads) on whichever
+ * thread constructs it. `ObjectDetectionEngine` hosts it inside the
+ * detection worker.
+ */
+export class WasmDetector {
+  private session: InferenceSession | null = null;
+  private ort: typeof import('onnxruntime-web') | null = null;
+  private manifest: ResolvedModelManifest | null = null;
+  private modelLoaded = false;
+  private modelId?: string;
+  private tiling: TilingConfig | null;
+  private mockOptions: MockOptions | null;
+  private mockDetector: MockDetector | null = null;
+
+  constructor(modelId?: string, options: DetectionOptions = {}) {
+    this.modelId = modelId;
+    this.tiling = options.tiling ? { ...DEFAULT_TILING, ...options.tiling } : null;
+    this.mockOptions = options.mock || null;
+  }
+
+  async initialize(): Promise<void> {
+    if (this.mockOptions) {
+      // Explicitly requested mock backend: reproducible, no model needed
+      const scenario = this.mockOptions.scenarioUrl
+        ? await loadMockScenario(this.mockOptions.scenarioUrl)
+        : undefined;
+      this.mockDetector = new MockDetector({ seed: this.mockOptions.seed, scenario });
+      this.modelLoaded = true;
+      console.log(scenario
+        ? `Replaying mock scenario '${scenario.name || this.mockOptions.scenarioUrl}'`
+        : `Using seeded mock detection (seed ${this.mockOptions.seed ?? 'random'})`);
+      return;
+    }
+
     try {
       // Initialize ONNX Runtime Web for client-side inference
       const ort = await import('onnxruntime-web');
       
-      // Load quantized MobileNet-SSD model
-      const modelUrl = '/models/mobilenet-ssd.onnx';
+      // Resolve the model through its manifest (falls back to the registry default)
+      const manifest = await loadModelManifest(this.modelId);
+      console.log(`Loading detection model '${manifest.id}' from ${manifest.modelUrl}`);
       
       // Check if model file exists and is valid
-      const response = await fetch(modelUrl);
+      const response = await fetch(manifest.modelUrl);
       if (!response.ok) {
         throw new Error(`Model file not found: ${response.status}`);
       }
-      
-      // For now, use mock detection since we have a placeholder model
-      console.log('Using mock detection for WASM mode (model placeholder)');
-      this.modelLoaded = true;
-      
-      // Uncomment below when real ONNX model is available
-      /*
-      this.session = await ort.InferenceSession.create(modelUrl, {
+      const modelBuffer = new Uint8Array(await response.arrayBuffer());
+
+      this.session = await ort.InferenceSession.create(modelBuffer, {
         executionProviders: ['wasm'],
         graphOptimizationLevel: 'all'
       });
+      this.ort = ort;
+      this.manifest = manifest;
+      this.modelLoaded = true;
       console.log('ONNX model loaded successfully');
-      */
       
     } catch (error) {
       console.error('Failed to initialize WASM inference:', error);
       // Fallback to mock detection for demo purposes
+      console.log('Using mock detection for WASM mode');
+      this.session = null;
+      this.manifest = null;
+      this.mockDetector = new MockDetector();
       this.modelLoaded = true;
     }
   }
@@ -78,21 +293,24 @@ export class ObjectDetectionEngine {
     const frameId = `frame_${captureTs}`;
     const recvTs = Date.now();
 
-    if (this.isServerMode) {
-      // This shouldn't be called in server mode
-      throw new Error('detectObjects called in server mode');
-    }
-
     try {
       const inferenceTs = Date.now();
+      const inferenceStart = performance.now();
       let detections: Detection[];
+      let mode: InferenceMode;
+      let passes: number;
 
       if (this.session) {
-        // Real ONNX inference
-        detections = await this.runONNXInference(imageData);
+        // Real ONNX inference, once per region
+        const regions = this.getInferenceRegions(imageData.width, imageData.height);
+        detections = await this.runONNXInference(imageData, regions);
+        mode = this.tiling ? 'tiled' : 'full';
+        passes = regions.length;
       } else {
         // Mock detection for demo
-        detections = this.generateMockDetections();
+        detections = this.mockDetector!.next();
+        mode = 'mock';
+        passes = 0;
       }
 
       return {
@@ -100,7 +318,10 @@ export class ObjectDetectionEngine {
         capture_ts: captureTs,
         recv_ts: recvTs,
         inference_ts: inferenceTs,
-        detections
+        detections,
+        inference_mode: mode,
+        inference_passes: passes,
+        inference_ms: performance.now() - inferenceStart
       };
     } catch (error) {
       console.error('Object detection failed:', error);
@@ -108,137 +329,219 @@ export class ObjectDetectionEngine {
     }
   }
 
-  private async runONNXInference(imageData: ImageData): Promise<Detection[]> {
-    try {
-      // Preprocess image for MobileNet-SSD (320x240 input)
-      const input = this.preprocessImage(imageData);
-      
-      // Run inference (commented out until real model is loaded)
-      // const results = await (this.session as any).run({ input });
-      // return this.postprocessResults(results);
-      
-      // Use mock detection for now
-      return this.generateMockDetections();
-    } catch (error) {
-      console.error('ONNX inference failed:', error);
-      return this.generateMockDetections();
+  private getInferenceRegions(width: number, height: number): FrameRegion[] {
+    const fullFrame = { x: 0, y: 0, width, height };
+    if (!this.tiling) {
+      return [fullFrame];
     }
+
+    const tiles = computeTiles(width, height, this.tiling);
+    return this.tiling.includeFullFrame ? [fullFrame, ...tiles] : tiles;
+  }
+
+  private async runONNXInference(imageData: ImageData, regions: FrameRegion[]): Promise<Detection[]> {
+    const detections: Detection[] = [];
+
+    for (const region of regions) {
+      detections.push(...await this.runRegionInference(imageData, region));
+    }
+
+    if (regions.length === 1) {
+      return detections;
+    }
+
+    // Merge overlapping tile results into one set of full-frame boxes
+    const { iouThreshold, maxDetections } = this.manifest!.output;
+    return nonMaxSuppression(detections, iouThreshold, maxDetections);
   }
 
-  private preprocessImage(imageData: ImageData): Float32Array {
-    const { width, height, data } = imageData;
-    const targetWidth = 320;
-    const targetHeight = 240;
+  private async runRegionInference(imageData: ImageData, region: FrameRegion): Promise<Detection[]> {
+    const { width, height, layout } = this.manifest!.input;
+    const { input, transform } = this.preprocessImage(imageData, region);
+    const dims = layout === 'NCHW' ? [1, 3, height, width] : [1, height, width, 3];
+    const tensor = new this.ort!.Tensor('float32', input, dims);
+
+    const results = await this.session!.run({ [this.session!.inputNames[0]]: tensor });
+    return this.postprocessResults(results).map(detection =>
+      regionToFrame(unprojectDetection(detection, transform), region, imageData.width, imageData.height)
+    );
+  }
+
+  private preprocessImage(
+    imageData: ImageData,
+    region: FrameRegion
+  ): { input: Float32Array; transform: FrameTransform } {
+    const { data } = imageData;
+    const stride = imageData.width;
+    const { x: offsetX, y: offsetY, width, height } = region;
+    const { width: targetWidth, height: targetHeight, layout, mean, std, resize, padValue } = this.manifest!.input;
+    const transform = computeFrameTransform(width, height, targetWidth, targetHeight, resize);
+    const { scaleX, scaleY, padX, padY } = transform;
+    const planeSize = targetHeight * targetWidth;
+    const contentRight = padX + width * scaleX;
+    const contentBottom = padY + height * scaleY;
     
     // Create resized and normalized tensor
-    const input = new Float32Array(1 * 3 * targetHeight * targetWidth);
+    const input = new Float32Array(3 * planeSize);
+    const pixel = [0, 0, 0];
     
-    // Simple bilinear resize and normalize
     for (let y = 0; y < targetHeight; y++) {
+      const centerY = y + 0.5;
+      // Source row sampled by this output row, aligned on pixel centers
+      const srcY = Math.min(height - 1, Math.max(0, (centerY - padY) / scaleY - 0.5));
+      const y0 = Math.floor(srcY);
+      const y1 = Math.min(y0 + 1, height - 1);
+      const fy = srcY - y0;
+
       for (let x = 0; x < targetWidth; x++) {
-        const srcX = Math.floor((x / targetWidth) * width);
-        const srcY = Math.floor((y / targetHeight) * height);
-        const srcIdx = (srcY * width + srcX) * 4;
-        
-        const r = data[srcIdx] / 255.0;
-        const g = data[srcIdx + 1] / 255.0;
-        const b = data[srcIdx + 2] / 255.0;
-        
+        const centerX = x + 0.5;
         const dstIdx = y * targetWidth + x;
-        input[dstIdx] = r; // R channel
-        input[targetHeight * targetWidth + dstIdx] = g; // G channel
-        input[2 * targetHeight * targetWidth + dstIdx] = b; // B channel
-      }
-    }
-    
-    return input;
-  }
+        const isPadding = centerX < padX || centerX > contentRight || centerY < padY || centerY > contentBottom;
 
-  private postprocessResults(results: unknown): Detection[] {
-    // This would parse actual ONNX model outputs
-    // For demo, return mock detections
-    return this.generateMockDetections();
-  }
+        if (isPadding) {
+          pixel[0] = pixel[1] = pixel[2] = padValue;
+        } else {
+          // Bilinear interpolation between the four neighbouring source pixels
+          const srcX = Math.min(width - 1, Math.max(0, (centerX - padX) / scaleX - 0.5));
+          const x0 = Math.floor(srcX);
+          const x1 = Math.min(x0 + 1, width - 1);
+          const fx = srcX - x0;
 
-  private generateMockDetections(): Detection[] {
-    const now = Date.now();
-    
-    // Only update detections every 2 seconds for stability
-    if (now - this.lastDetectionUpdate < this.detectionUpdateInterval && this.persistentDetections.length > 0) {
-      // Add slight movement to existing detections for realism
-      return this.persistentDetections.map(detection => ({
-        ...detection,
-        xmin: Math.max(0, Math.min(0.9, detection.xmin + (Math.random() - 0.5) * 0.02)),
-        ymin: Math.max(0, Math.min(0.9, detection.ymin + (Math.random() - 0.5) * 0.02)),
-        xmax: Math.max(0.1, Math.min(1.0, detection.xmax + (Math.random() - 0.5) * 0.02)),
-        ymax: Math.max(0.1, Math.min(1.0, detection.ymax + (Math.random() - 0.5) * 0.02)),
-        score: Math.max(0.6, Math.min(1.0, detection.score + (Math.random() - 0.5) * 0.1))
-      }));
-    }
-    
-    // Generate new stable detections
-    this.lastDetectionUpdate = now;
-    const mockObjects = [
-      { label: 'person', prob: 0.8 },
-      { label: 'phone', prob: 0.7 },
-      { label: 'cup', prob: 0.5 },
-      { label: 'book', prob: 0.4 },
-      { label: 'laptop', prob: 0.6 }
-    ];
+          // Sample within the region, offset into the full frame
+          const row0 = (offsetY + y0) * stride + offsetX;
+          const row1 = (offsetY + y1) * stride + offsetX;
+          const i00 = (row0 + x0) * 4;
+          const i01 = (row0 + x1) * 4;
+          const i10 = (row1 + x0) * 4;
+          const i11 = (row1 + x1) * 4;
 
-    const detections: Detection[] = [];
-    
-    // Generate 2-3 stable objects for better demo
-    mockObjects.forEach(obj => {
-      if (Math.random() < obj.prob) {
-        const xmin = Math.random() * 0.5; // Random position
-        const ymin = Math.random() * 0.5;
-        const width = 0.2 + Math.random() * 0.2; // 20-40% width
-        const height = 0.2 + Math.random() * 0.2; // 20-40% height
+          for (let c = 0; c < 3; c++) {
+            const top = data[i00 + c] * (1 - fx) + data[i01 + c] * fx;
+            const bottom = data[i10 + c] * (1 - fx) + data[i11 + c] * fx;
+            pixel[c] = top * (1 - fy) + bottom * fy;
+          }
+        }
         
-        detections.push({
-          label: obj.label,
-          score: 0.75 + Math.random() * 0.2, // 75-95% confidence
-          xmin: xmin,
-          ymin: ymin,
-          xmax: Math.min(xmin + width, 1.0),
-          ymax: Math.min(ymin + height, 1.0)
-        });
-      }
-    });
-
-    // Ensure at least 2 objects for good demo
-    if (detections.length < 2) {
-      detections.push(
-        {
-          label: 'person',
-          score: 0.88,
-          xmin: 0.1,
-          ymin: 0.2,
-          xmax: 0.5,
-          ymax: 0.7
-        },
-        {
-          label: 'phone',
-          score: 0.82,
-          xmin: 0.6,
-          ymin: 0.4,
-          xmax: 0.85,
-          ymax: 0.65
+        for (let c = 0; c < 3; c++) {
+          const value = (pixel[c] / 255.0 - mean[c]) / std[c];
+          if (layout === 'NCHW') {
+            input[c * planeSize + dstIdx] = value;
+          } else {
+            input[dstIdx * 3 + c] = value;
+          }
         }
-      );
+      }
     }
+    
+    return { input, transform };
+  }
 
-    this.persistentDetections = detections;
-    console.log('Generated', detections.length, 'stable mock detections:', detections.map(d => d.label));
-    return detections;
+  private postprocessResults(results: InferenceSession.OnnxValueMapType): Detection[] {
+    return decodeModelOutputs(Object.values(results) as Tensor[], this.manifest!);
   }
 
   cleanup(): void {
     if (this.session) {
+      this.session.release().catch(error => console.error('Failed to release ONNX session:', error));
       this.session = null;
     }
+    this.ort = null;
+    this.manifest = null;
+    this.mockDetector = null;
     this.modelLoaded = false;
-    this.frameQueue = [];
   }
-}
\ No newline at end of file
+}
+
+function closeFrame(frame: ImageData | ImageBitmap): void {
+  if (!(frame instanceof ImageData)) frame.close();
+}
+
+export function bitmapToImageData(bitmap: ImageBitmap): ImageData {
+  const { width, height } = bitmap;
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext('2d')!;
+  ctx.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  return ctx.getImageData(0, 0, width, height);
+}
+
+export function computeFrameTransform(
+  sourceWidth: number,
+  sourceHeight: number,
+  inputWidth: number,
+  inputHeight: number,
+  resize: ResizeMode
+): FrameTransform {
+  if (resize === 'stretch') {
+    return {
+      sourceWidth,
+      sourceHeight,
+      inputWidth,
+      inputHeight,
+      scaleX: inputWidth / sourceWidth,
+      scaleY: inputHeight / sourceHeight,
+      padX: 0,
+      padY: 0
+    };
+  }
+
+  const scale = Math.min(inputWidth / sourceWidth, inputHeight / sourceHeight);
+  return {
+    sourceWidth,
+    sourceHeight,
+    inputWidth,
+    inputHeight,
+    scaleX: scale,
+    scaleY: scale,
+    padX: (inputWidth - sourceWidth * scale) / 2,
+    padY: (inputHeight - sourceHeight * scale) / 2
+  };
+}
+
+/**
+ * Splits a frame into a grid of overlapping tiles covering it edge to edge.
+ */
+export function computeTiles(width: number, height: number, tiling: TilingConfig): FrameRegion[] {
+  const overlap = Math.max(0, Math.min(0.9, tiling.overlap));
+  const rows = Math.max(1, Math.floor(tiling.rows));
+  const cols = Math.max(1, Math.floor(tiling.cols));
+
+  // n tiles of size t with stride t * (1 - overlap) span t * (n - (n - 1) * overlap)
+  const tileWidth = width / (cols - (cols - 1) * overlap);
+  const tileHeight = height / (rows - (rows - 1) * overlap);
+  const tiles: FrameRegion[] = [];
+
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      const x = Math.round(col * tileWidth * (1 - overlap));
+      const y = Math.round(row * tileHeight * (1 - overlap));
+      tiles.push({
+        x,
+        y,
+        width: Math.min(Math.round(tileWidth), width - x),
+        height: Math.min(Math.round(tileHeight), height - y)
+      });
+    }
+  }
+
+  return tiles;
+}
+
+/**
+ * Re-expresses a detection normalized to a frame region as coordinates
+ * normalized to the whole frame.
+ */
+export function regionToFrame(
+  detection: Detection,
+  region: FrameRegion,
+  frameWidth: number,
+  frameHeight: number
+): Detection {
+  return {
+    ...detection,
+    xmin: (region.x + detection.xmin * region.width) / frameWidth,
+    ymin: (region.y + detection.ymin * region.height) / frameHeight,
+    xmax: (region.x + detection.xmax * region.width) / frameWidth,
+    ymax: (region.y + detection.ymax * region.height) / frameHeight
+  };
+}
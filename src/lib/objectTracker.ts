@@ -0,0 +1,177 @@
+import { Detection, DetectionResult } from './objectDetection';
+import { Box, iou } from '../../shared/detectionDecoders.mjs';
+
+export interface TrackedDetection extends Detection {
+  track_id: number;
+  // Number of frames the track has been alive, including this one
+  age: number;
+  // Box center velocity in normalized frame units per second
+  velocity: { vx: number; vy: number };
+}
+
+export interface TrackerConfig {
+  // Minimum IoU between a predicted track box and a detection to associate them
+  iouThreshold: number;
+  // Detections at or above this score are matched first and may start new tracks;
+  // lower-scoring ones only extend existing tracks (ByteTrack's second pass)
+  highScoreThreshold: number;
+  // Tracks that go unmatched for longer than this are dropped
+  maxMissedMs: number;
+  // Weight of the newest measurement in the velocity estimate (0..1)
+  velocitySmoothing: number;
+}
+
+export const DEFAULT_TRACKER_CONFIG: TrackerConfig = {
+  iouThreshold: 0.3,
+  highScoreThreshold: 0.5,
+  maxMissedMs: 1000,
+  velocitySmoothing: 0.5
+};
+
+interface Track {
+  id: number;
+  label: string;
+  box: Box;
+  vx: number;
+  vy: number;
+  age: number;
+  lastSeenTs: number;
+}
+
+/**
+ * SORT/ByteTrack-style multi-object tracker. Each track carries a constant
+ * velocity motion model; on every frame the tracks are advanced to the
+ * frame's capture time and greedily associated with same-label detections by
+ * IoU, high-confidence detections first. Works on `DetectionResult`s from any
+ * backend since it only looks at normalized boxes and timestamps.
+ */
+export class ObjectTracker {
+  private config: TrackerConfig;
+  private tracks: Track[] = [];
+  private nextTrackId = 1;
+
+  constructor(config: Partial<TrackerConfig> = {}) {
+    this.config = { ...DEFAULT_TRACKER_CONFIG, ...config };
+  }
+
+  update(result: DetectionResult): DetectionResult {
+    const timestamp = result.capture_ts;
+    const detections = result.detections || [];
+    const matchedTracks = new Set<Track>();
+    const assignments = new Map<Detection, Track>();
+
+    const high = detections.filter(d => d.score >= this.config.highScoreThreshold);
+    const low = detections.filter(d => d.score < this.config.highScoreThreshold);
+
+    this.associate(high, timestamp, matchedTracks, assignments);
+    this.associate(low, timestamp, matchedTracks, assignments);
+
+    const tracked: TrackedDetection[] = [];
+
+    for (const detection of detections) {
+      let track = assignments.get(detection);
+
+      if (track) {
+        this.updateTrack(track, detection, timestamp);
+      } else if (detection.score >= this.config.highScoreThreshold) {
+        track = this.createTrack(detection, timestamp);
+      } else {
+        // Low-confidence detections never start tracks on their own
+        continue;
+      }
+
+      tracked.push({
+        ...detection,
+        track_id: track.id,
+        age: track.age,
+        velocity: { vx: track.vx, vy: track.vy }
+      });
+    }
+
+    this.tracks = this.tracks.filter(track => timestamp - track.lastSeenTs <= this.config.maxMissedMs);
+
+    return { ...result, detections: tracked };
+  }
+
+  reset(): void {
+    this.tracks = [];
+    this.nextTrackId = 1;
+  }
+
+  private associate(
+    detections: Detection[],
+    timestamp: number,
+    matchedTracks: Set<Track>,
+    assignments: Map<Detection, Track>
+  ): void {
+    const pairs: { track: Track; detection: Detection; overlap: number }[] = [];
+
+    for (const track of this.tracks) {
+      if (matchedTracks.has(track)) continue;
+      const predicted = this.predict(track, timestamp);
+
+      for (const detection of detections) {
+        if (detection.label !== track.label) continue;
+        const overlap = iou(predicted, detection);
+        if (overlap >= this.config.iouThreshold) {
+          pairs.push({ track, detection, overlap });
+        }
+      }
+    }
+
+    // Greedy assignment, best overlaps first
+    pairs.sort((a, b) => b.overlap - a.overlap);
+    for (const { track, detection } of pairs) {
+      if (matchedTracks.has(track) || assignments.has(detection)) continue;
+      matchedTracks.add(track);
+      assignments.set(detection, track);
+    }
+  }
+
+  private predict(track: Track, timestamp: number): Box {
+    const dt = (timestamp - track.lastSeenTs) / 1000;
+    const dx = track.vx * dt;
+    const dy = track.vy * dt;
+
+    return {
+      xmin: track.box.xmin + dx,
+      ymin: track.box.ymin + dy,
+      xmax: track.box.xmax + dx,
+      ymax: track.box.ymax + dy
+    };
+  }
+
+  private updateTrack(track: Track, detection: Detection, timestamp: number): void {
+    const dt = (timestamp - track.lastSeenTs) / 1000;
+
+    if (dt > 0) {
+      const measuredVx = (centerX(detection) - centerX(track.box)) / dt;
+      const measuredVy = (centerY(detection) - centerY(track.box)) / dt;
+      const alpha = this.config.velocitySmoothing;
+      track.vx = alpha * measuredVx + (1 - alpha) * track.vx;
+      track.vy = alpha * measuredVy + (1 - alpha) * track.vy;
+    }
+
+    track.box = { xmin: detection.xmin, ymin: detection.ymin, xmax: detection.xmax, ymax: detection.ymax };
+    track.age++;
+    track.lastSeenTs = timestamp;
+  }
+
+  private createTrack(detection: Detection, timestamp: number): Track {
+    const track: Track = {
+      id: this.nextTrackId++,
+      label: detection.label,
+      box: { xmin: detection.xmin, ymin: detection.ymin, xmax: detection.xmax, ymax: detection.ymax },
+      vx: 0,
+      vy: 0,
+      age: 1,
+      lastSeenTs: timestamp
+    };
+
+    this.tracks.push(track);
+    return track;
+  }
+}
+
+const centerX = (box: Box) => (box.xmin + box.xmax) / 2;
+const centerY = (box: Box) => (box.ymin + box.ymax) / 2;
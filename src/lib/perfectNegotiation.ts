@@ -0,0 +1,131 @@
+import { SessionDescription } from '../../shared/signalingProtocol.mjs';
+
+export interface PerfectNegotiationOptions {
+  // The polite side yields when both sides offer at once (glare); the
+  // impolite side ignores the colliding offer and keeps its own
+  polite: boolean;
+  // Sends a local offer or answer; iceRestart marks offers made by restartIce()
+  sendDescription: (description: SessionDescription, iceRestart: boolean) => void;
+  // Answer-only peers (the server-side peer cannot take offers) never offer
+  canOffer?: boolean;
+}
+
+/**
+ * The WebRTC "perfect negotiation" pattern for one RTCPeerConnection. Either
+ * side may start a (re)negotiation whenever the connection needs one (new
+ * transceivers, ICE restarts); offers that collide are settled by the polite
+ * and impolite roles instead of by message timing. ICE candidates that arrive
+ * before the remote description they belong to are queued and added once it
+ * is set, rather than failing in addIceCandidate.
+ */
+export class PerfectNegotiation {
+  readonly peerConnection: RTCPeerConnection;
+  private options: PerfectNegotiationOptions;
+  private makingOffer = false;
+  private ignoreOffer = false;
+  private settingRemoteAnswer = false;
+  private restartingIce = false;
+  private pendingCandidates: RTCIceCandidateInit[] = [];
+
+  constructor(peerConnection: RTCPeerConnection, options: PerfectNegotiationOptions) {
+    this.peerConnection = peerConnection;
+    this.options = options;
+
+    if (options.canOffer !== false) {
+      peerConnection.onnegotiationneeded = () => this.makeOffer();
+    }
+  }
+
+  // Takes effect through negotiationneeded, so it is safe mid-negotiation
+  restartIce() {
+    if (this.options.canOffer === false) return;
+    this.restartingIce = true;
+    this.peerConnection.restartIce();
+  }
+
+  // Sends the offer again if it is still unanswered, e.g. because the other
+  // side's socket dropped before it arrived; returns whether there was one
+  resendPendingOffer(): boolean {
+    const { localDescription, signalingState } = this.peerConnection;
+    if (signalingState !== 'have-local-offer' || !localDescription) return false;
+
+    this.options.sendDescription({ type: 'offer', sdp: localDescription.sdp }, this.restartingIce);
+    return true;
+  }
+
+  async handleDescription(description: RTCSessionDescriptionInit) {
+    const peerConnection = this.peerConnection;
+    // An answer being applied ends our offer, so an offer right behind it is no collision
+    const readyForOffer = !this.makingOffer &&
+      (peerConnection.signalingState === 'stable' || this.settingRemoteAnswer);
+    const offerCollision = description.type === 'offer' && !readyForOffer;
+
+    this.ignoreOffer = !this.options.polite && offerCollision;
+    if (this.ignoreOffer) {
+      console.log('Ignoring colliding offer (impolite peer)');
+      return;
+    }
+
+    // The polite side's colliding offer is rolled back implicitly here
+    this.settingRemoteAnswer = description.type === 'answer';
+    try {
+      await peerConnection.setRemoteDescription(description);
+    } finally {
+      this.settingRemoteAnswer = false;
+    }
+    if (description.type === 'answer') {
+      this.restartingIce = false;
+    }
+    await this.addPendingCandidates();
+
+    if (description.type === 'offer') {
+      await peerConnection.setLocalDescription();
+      const answer = peerConnection.localDescription;
+      if (answer) {
+        this.options.sendDescription({ type: 'answer', sdp: answer.sdp }, false);
+      }
+    }
+  }
+
+  async handleCandidate(candidate: RTCIceCandidateInit) {
+    if (!this.peerConnection.remoteDescription) {
+      this.pendingCandidates.push(candidate);
+      return;
+    }
+
+    try {
+      await this.peerConnection.addIceCandidate(candidate);
+    } catch (error) {
+      // Candidates of an offer we ignored are expected to fail
+      if (!this.ignoreOffer) throw error;
+    }
+  }
+
+  private async makeOffer() {
+    try {
+      this.makingOffer = true;
+      await this.peerConnection.setLocalDescription();
+      const offer = this.peerConnection.localDescription;
+      if (offer && offer.type === 'offer') {
+        this.options.sendDescription({ type: 'offer', sdp: offer.sdp }, this.restartingIce);
+      }
+    } catch (error) {
+      console.error('Failed to create offer:', error);
+    } finally {
+      this.makingOffer = false;
+    }
+  }
+
+  private async addPendingCandidates() {
+    const candidates = this.pendingCandidates;
+    this.pendingCandidates = [];
+
+    for (const candidate of candidates) {
+      try {
+        await this.peerConnection.addIceCandidate(candidate);
+      } catch (error) {
+        if (!this.ignoreOffer) console.error('Failed to add queued ICE candidate:', error);
+      }
+    }
+  }
+}
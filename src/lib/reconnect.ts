@@ -0,0 +1,18 @@
+// Signaling sockets reconnect after 1s, 2s, 4s, ... up to this delay
+const MAX_RECONNECT_DELAY_MS = 15000;
+
+/**
+ * Delay before reconnect attempt number `attempt` (0-based): exponential
+ * backoff with jitter, so that clients dropped together by a server restart
+ * do not all come back in the same instant.
+ */
+export function reconnectDelay(attempt: number): number {
+  const delay = Math.min(MAX_RECONNECT_DELAY_MS, Math.pow(2, attempt) * 1000);
+  return delay / 2 + Math.random() * delay / 2;
+}
+
+export const signalingUrl = () => {
+  const wsProtocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+  // Use host instead of hostname to include port
+  return `${wsProtocol}//${window.location.host}/ws`;
+};
@@ -1,41 +1,99 @@
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useMemo, useCallback } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
 import { Switch } from '@/components/ui/switch';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { WebRTCStream } from '../components/WebRTCStream';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ServerTransport, Metrics } from '../components/WebRTCStream';
+import { CameraTile, CameraTileHandle } from '../components/CameraTile';
 import { MetricsPanel } from '../components/MetricsPanel';
 import { QRCodeGenerator } from '../components/QRCodeGenerator';
-import { ObjectDetectionOverlay } from '../components/ObjectDetectionOverlay';
+import { useSignalingRoom } from '@/hooks/use-signaling-room';
+import { fetchModelRegistry } from '../lib/modelRegistry';
+import { ModelRegistryEntry } from '../../shared/modelManifest.mjs';
+import { DEFAULT_TILING, TilingConfig } from '../lib/objectDetection';
+import { MockOptions } from '../lib/mockDetector';
 
-interface Detection {
-  label: string;
-  score: number;
-  xmin: number;
-  ymin: number;
-  xmax: number;
-  ymax: number;
-}
+type ConnectionStatus = 'disconnected' | 'connecting' | 'connected';
+
+const EMPTY_METRICS: Metrics = {
+  latency: { median: 0, p95: 0 },
+  fps: 0,
+  bandwidth: { uplink: 0, downlink: 0 }
+};
+
+// Address phones and other viewers open: this page's own origin, unless the
+// build sets VITE_PUBLIC_URL (e.g. a tunnel in front of a local server)
+const publicBaseUrl = () => (import.meta.env.VITE_PUBLIC_URL || window.location.origin).replace(/\/+$/, '');
 
 export default function RealTimeDetectionDemo() {
   const [isServerMode, setIsServerMode] = useState(false);
+  // QA hooks: ?mockSeed=42 or ?mockScenario=/scenarios/desk-walkthrough.json
+  // make WASM mode replay a reproducible detection sequence
+  const mockOptions = useMemo<MockOptions | null>(() => {
+    const params = new URLSearchParams(window.location.search);
+    const seed = params.get('mockSeed');
+    const scenarioUrl = params.get('mockScenario');
+    if (seed === null && scenarioUrl === null) return null;
+    return {
+      seed: seed !== null ? Number(seed) : undefined,
+      scenarioUrl: scenarioUrl || undefined
+    };
+  }, []);
+  // ?room=<id>&key=<viewer key> opens this dashboard as another viewer of an
+  // existing room; the key is only in the viewer link, never in the QR code
+  const { initialRoomId, initialViewerKey } = useMemo(() => {
+    const params = new URLSearchParams(window.location.search);
+    return { initialRoomId: params.get('room'), initialViewerKey: params.get('key') };
+  }, []);
+  // Signaling room created by the server for this dashboard; phones join it via
+  // the QR code with a single-use pairing code and each becomes a camera tile
+  const { roomId, viewerKey, accessError, pairing, cameras } = useSignalingRoom(initialRoomId, initialViewerKey);
   const [isStreaming, setIsStreaming] = useState(false);
-  const [connectionStatus, setConnectionStatus] = useState<'disconnected' | 'connecting' | 'connected'>('disconnected');
-  const [detections, setDetections] = useState<Detection[]>([]);
-  const [metrics, setMetrics] = useState<{
-    latency: { median: number; p95: number };
-    fps: number;
-    bandwidth: { uplink: number; downlink: number };
-  }>({
-    latency: { median: 0, p95: 0 },
-    fps: 0,
-    bandwidth: { uplink: 0, downlink: 0 }
-  });
-
-  const videoRef = useRef<HTMLVideoElement & { cleanup?: () => void }>(null);
-  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [cameraStatus, setCameraStatus] = useState<Record<string, ConnectionStatus>>({});
+  const [cameraMetrics, setCameraMetrics] = useState<Record<string, Metrics>>({});
+  // Camera shown enlarged, and whose metrics the metrics panel shows
+  const [selectedCameraId, setSelectedCameraId] = useState<string | null>(null);
+  const [models, setModels] = useState<ModelRegistryEntry[]>([]);
+  const [defaultModelId, setDefaultModelId] = useState<string>('');
+  // Left undefined until the user picks a model so the engine loads the registry default
+  const [modelId, setModelId] = useState<string | undefined>(undefined);
+  const [serverTransport, setServerTransport] = useState<ServerTransport>('websocket');
+  // Tile grid size for sliced inference, 'off' for a single full-frame pass
+  const [tileGrid, setTileGrid] = useState<'off' | '2' | '3'>('off');
+  const tiling = useMemo<TilingConfig | null>(
+    () => tileGrid === 'off' ? null : { ...DEFAULT_TILING, rows: Number(tileGrid), cols: Number(tileGrid) },
+    [tileGrid]
+  );
+
+  const tileRefs = useRef(new Map<string, CameraTileHandle>());
+
+  const handleConnectionChange = useCallback((cameraId: string, status: ConnectionStatus) => {
+    setCameraStatus(prev => ({ ...prev, [cameraId]: status }));
+  }, []);
+
+  const handleMetricsUpdate = useCallback((cameraId: string, metrics: Metrics) => {
+    setCameraMetrics(prev => ({ ...prev, [cameraId]: metrics }));
+  }, []);
+
+  // The dashboard is as connected as its best camera
+  const statuses = cameras.map(camera => cameraStatus[camera.peerId] ?? 'disconnected');
+  const connectionStatus: ConnectionStatus = statuses.includes('connected') ? 'connected'
+    : statuses.includes('connecting') ? 'connecting' : 'disconnected';
+  const selectedCamera = cameras.find(camera => camera.peerId === selectedCameraId) ?? null;
+  const metricsCameraId = (selectedCamera ?? cameras[0])?.peerId;
+  const metrics = (metricsCameraId && cameraMetrics[metricsCameraId]) || EMPTY_METRICS;
+
+  useEffect(() => {
+    fetchModelRegistry()
+      .then(registry => {
+        setModels(registry.models);
+        setDefaultModelId(registry.default);
+      })
+      .catch(error => console.error('Failed to load model registry:', error));
+  }, []);
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900 p-4">
@@ -60,6 +118,59 @@ export default function RealTimeDetectionDemo() {
             />
             <span className={`text-white transition-all ${isServerMode ? 'font-semibold text-purple-400' : 'text-gray-300'}`}>Server Mode</span>
           </div>
+
+          {/* Model Selection */}
+          {models.length > 0 && (
+            <div className="flex items-center justify-center gap-3">
+              <span className="text-sm text-gray-300">Model:</span>
+              <Select value={modelId ?? defaultModelId} onValueChange={setModelId} disabled={isStreaming}>
+                <SelectTrigger className="w-64 bg-white/10 border-white/20 text-white">
+                  <SelectValue placeholder="Select a model" />
+                </SelectTrigger>
+                <SelectContent>
+                  {models.map(model => (
+                    <SelectItem key={model.id} value={model.id}>
+                      {model.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {/* Server Frame Transport */}
+          {isServerMode && (
+            <div className="flex items-center justify-center gap-3">
+              <span className="text-sm text-gray-300">Frame transport:</span>
+              <Select value={serverTransport} onValueChange={(value) => setServerTransport(value as ServerTransport)} disabled={isStreaming}>
+                <SelectTrigger className="w-40 bg-white/10 border-white/20 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="websocket">WebSocket</SelectItem>
+                  <SelectItem value="http">HTTP</SelectItem>
+                  <SelectItem value="webrtc">Server peer</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {/* Sliced Inference */}
+          {!isServerMode && (
+            <div className="flex items-center justify-center gap-3">
+              <span className="text-sm text-gray-300">Tiled inference:</span>
+              <Select value={tileGrid} onValueChange={(value) => setTileGrid(value as 'off' | '2' | '3')} disabled={isStreaming}>
+                <SelectTrigger className="w-40 bg-white/10 border-white/20 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="off">Off</SelectItem>
+                  <SelectItem value="2">2×2 tiles</SelectItem>
+                  <SelectItem value="3">3×3 tiles</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          )}
           
           <Badge className={`px-4 py-2 text-sm font-medium ${isServerMode ? 'bg-purple-500/20 text-purple-300 border-purple-500/30' : 'bg-cyan-500/20 text-cyan-300 border-cyan-500/30'}`}>
             {isServerMode ? "🚀 Server-side Inference" : "⚡ Client-side WASM Inference"}
@@ -71,7 +182,7 @@ export default function RealTimeDetectionDemo() {
           <Card className="lg:col-span-1 bg-white/10 backdrop-blur-sm border-white/20">
             <CardHeader>
               <CardTitle className="flex items-center gap-2 text-white">
-                📱 Phone Connection
+                📱 Phone Connections
                 <Badge className={`${
                   connectionStatus === 'connected' ? 'bg-green-500/20 text-green-300 border-green-500/30' : 
                   connectionStatus === 'connecting' ? 'bg-yellow-500/20 text-yellow-300 border-yellow-500/30' : 'bg-red-500/20 text-red-300 border-red-500/30'
@@ -81,15 +192,32 @@ export default function RealTimeDetectionDemo() {
               </CardTitle>
             </CardHeader>
             <CardContent className="space-y-4">
-              <QRCodeGenerator 
-                url={`https://da0853474abb.ngrok-free.app/phone`}
-                isVisible={!isStreaming}
-              />
+              {roomId && pairing ? (
+                <>
+                  <QRCodeGenerator 
+                    url={`${publicBaseUrl()}/phone?room=${encodeURIComponent(roomId)}&token=${encodeURIComponent(pairing.token)}`}
+                    isVisible={true}
+                  />
+                  <p className="text-sm text-gray-300 text-center">
+                    Or enter PIN <span className="font-mono font-semibold text-white tracking-widest">{pairing.pin}</span> on the phone page
+                  </p>
+                  <p className="text-xs text-gray-400 text-center">
+                    {cameras.length === 0 ? 'No cameras paired yet' : `${cameras.length} camera${cameras.length === 1 ? '' : 's'} paired`} · scan again to add another
+                  </p>
+                  <p className="text-xs text-gray-400 text-center break-all">
+                    Watch from another screen: <span className="font-mono text-gray-300">{`${publicBaseUrl()}/?room=${encodeURIComponent(roomId)}&key=${encodeURIComponent(viewerKey ?? '')}`}</span>
+                  </p>
+                </>
+              ) : accessError ? (
+                <p className="text-sm text-red-400 text-center">{accessError}</p>
+              ) : (
+                <p className="text-sm text-gray-400 text-center">Creating room...</p>
+              )}
               
               <div className="space-y-2">
                 <div className="space-y-2 bg-white/5 rounded-lg p-3 border border-white/10">
                   <p className="text-sm text-gray-300 flex items-center gap-2">
-                    <span className="text-cyan-400">1.</span> Scan QR code with your phone
+                    <span className="text-cyan-400">1.</span> Scan QR code with each phone
                   </p>
                   <p className="text-sm text-gray-300 flex items-center gap-2">
                     <span className="text-purple-400">2.</span> Allow camera access
@@ -103,11 +231,8 @@ export default function RealTimeDetectionDemo() {
               <Button 
                 onClick={() => {
                   if (isStreaming) {
-                    // Stop streaming - cleanup WebRTC connection
-                    if (videoRef.current?.cleanup) {
-                      videoRef.current.cleanup();
-                    }
-                    setDetections([]);
+                    // Stop streaming - cleanup every camera's WebRTC connection
+                    tileRefs.current.forEach(tile => tile.cleanup());
                   }
                   setIsStreaming(!isStreaming);
                 }}
@@ -122,42 +247,58 @@ export default function RealTimeDetectionDemo() {
             </CardContent>
           </Card>
 
-          {/* Video Stream with Overlays */}
+          {/* Camera Grid with Overlays */}
           <Card className="lg:col-span-2 bg-white/10 backdrop-blur-sm border-white/20">
             <CardHeader>
               <CardTitle className="text-white flex items-center gap-2">
-                🎥 Live Video Stream
+                🎥 Live Video Streams
                 {connectionStatus === 'connected' && (
                   <div className="flex items-center gap-1">
                     <div className="w-2 h-2 bg-red-500 rounded-full animate-pulse"></div>
                     <span className="text-sm text-red-400 font-normal">LIVE</span>
                   </div>
                 )}
+                {cameras.length > 1 && (
+                  <span className="ml-auto text-sm text-gray-400 font-normal">Click a camera to enlarge it</span>
+                )}
               </CardTitle>
             </CardHeader>
             <CardContent>
-              <div className="relative aspect-video bg-gradient-to-br from-gray-900 to-black rounded-xl overflow-hidden border border-white/10 shadow-2xl">
-                <WebRTCStream
-                  ref={videoRef}
-                  isServerMode={isServerMode}
-                  onConnectionChange={setConnectionStatus}
-                  onDetections={setDetections}
-                  onMetricsUpdate={setMetrics}
-                />
-                
-                <ObjectDetectionOverlay
-                  detections={detections}
-                  videoRef={videoRef}
-                />
-                
-                {!isStreaming && (
+              {roomId && cameras.length > 0 ? (
+                <div className={`grid grid-cols-1 gap-4 ${cameras.length > 1 ? 'sm:grid-cols-2' : ''}`}>
+                  {cameras.map((camera, index) => (
+                    <CameraTile
+                      key={camera.peerId}
+                      ref={(tile) => {
+                        if (tile) tileRefs.current.set(camera.peerId, tile);
+                        else tileRefs.current.delete(camera.peerId);
+                      }}
+                      roomId={roomId}
+                      viewerKey={viewerKey}
+                      cameraId={camera.peerId}
+                      label={`Camera ${index + 1}`}
+                      isServerMode={isServerMode}
+                      serverTransport={serverTransport}
+                      modelId={modelId}
+                      tiling={tiling}
+                      mock={mockOptions}
+                      isStreaming={isStreaming}
+                      isSelected={cameras.length > 1 && camera.peerId === selectedCamera?.peerId}
+                      onSelect={() => setSelectedCameraId(camera.peerId === selectedCamera?.peerId ? null : camera.peerId)}
+                      onConnectionChange={handleConnectionChange}
+                      onMetricsUpdate={handleMetricsUpdate}
+                    />
+                  ))}
+                </div>
+              ) : (
+                <div className="relative aspect-video bg-gradient-to-br from-gray-900 to-black rounded-xl overflow-hidden border border-white/10 shadow-2xl">
                   <div className="absolute inset-0 flex flex-col items-center justify-center bg-gradient-to-br from-gray-800/50 to-black/50">
                     <div className="text-6xl mb-4 animate-pulse">📱</div>
                     <p className="text-white text-xl font-medium mb-2">Waiting for phone connection...</p>
                     <p className="text-gray-400 text-sm">Scan the QR code to get started</p>
                   </div>
-                )}
-              </div>
+                </div>
+              )}
             </CardContent>
           </Card>
         </div>
@@ -174,15 +315,6 @@ export default function RealTimeDetectionDemo() {
             </AlertDescription>
           </Alert>
         )}
-
-        {connectionStatus === 'connected' && detections.length === 0 && (
-          <Alert className="bg-green-500/10 border-green-500/30 backdrop-blur-sm">
-            <AlertDescription className="text-green-300 flex items-center gap-2">
-              <span className="text-green-400">✨</span>
-              Connected! Point your phone camera at objects to see detection overlays.
-            </AlertDescription>
-          </Alert>
-        )}
       </div>
     </div>
   );
@@ -3,6 +3,32 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { ObjectDetectionOverlay } from '@/components/ObjectDetectionOverlay';
+import { PROTOCOL_VERSION, DETECTION_CHANNEL_LABEL, ClientMessage, DetectionResultPayload, ErrorCode, encodeClientMessage, parseServerMessage } from '../../shared/signalingProtocol.mjs';
+import { reconnectDelay, signalingUrl } from '../lib/reconnect';
+import { PerfectNegotiation } from '../lib/perfectNegotiation';
+import { fetchIceServers } from '../lib/iceConfig';
+
+// Peer ID of the server-side WebRTC peer, which only ever offers
+const SERVER_PEER_ID = 'server';
+
+// Errors that end the phone's session; others (a bad message on a working
+// connection) are only logged
+const FATAL_ERROR_CODES: ReadonlySet<ErrorCode> = new Set<ErrorCode>([
+  'unsupported-version',
+  'room-not-found',
+  'pairing-rejected',
+  'session-expired'
+]);
+
+// Boxes are cleared when no viewer has sent results for this long
+const DETECTIONS_STALE_MS = 1000;
+
+// Room and single-use pairing token, carried in the QR code URL as /phone?room=<id>&token=<token>.
+// Without a token the user types the PIN shown on the dashboard instead.
+const getRoomId = () => new URLSearchParams(window.location.search).get('room');
+const getPairingToken = () => new URLSearchParams(window.location.search).get('token');
 
 export default function PhoneStreamPage() {
   const videoRef = useRef<HTMLVideoElement>(null);
@@ -10,10 +36,26 @@ export default function PhoneStreamPage() {
   const [connectionStatus, setConnectionStatus] = useState<'disconnected' | 'connecting' | 'connected'>('disconnected');
   const [error, setError] = useState<string>('');
   const [cameraInitialized, setCameraInitialized] = useState(false);
-  const peerConnectionRef = useRef<RTCPeerConnection | null>(null);
+  const [pin, setPin] = useState('');
+  // Latest results a viewer pushed over its detection data channel
+  const [detections, setDetections] = useState<DetectionResultPayload['detections']>([]);
+  const detectionsStaleTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Read from the WebSocket callbacks, which are created once per session
+  const pinRef = useRef('');
+  // One connection per viewer, keyed by the viewer's signaling peer ID
+  // ('server' for the server's own WebRTC peer used for server-side decoding)
+  const connectionsRef = useRef(new Map<string, PerfectNegotiation>());
   const websocketRef = useRef<WebSocket | null>(null);
+  // Issued in room-joined; presented on reconnect to resume the same session
+  const sessionIdRef = useRef<string | null>(null);
+  const reconnectTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   const initializePhoneStream = useCallback(async () => {
+    if (!getPairingToken() && !pinRef.current) {
+      setError('Scan the QR code on the dashboard, or enter the PIN shown below it.');
+      return;
+    }
+
     try {
       // Check if we're on HTTPS or localhost
       const isSecure = window.location.protocol === 'https:' || 
@@ -98,7 +140,7 @@ export default function PhoneStreamPage() {
         setError(`Camera error: ${err.message || err}\n\nTry:\n1. Refreshing the page\n2. Using Chrome or Safari\n3. Checking camera permissions`);
       }
     }
-  }, []);
+  }, []); // eslint-disable-line react-hooks/exhaustive-deps
 
   // Remove auto-initialization - require user interaction
   useEffect(() => {
@@ -110,133 +152,236 @@ export default function PhoneStreamPage() {
   const setupWebRTCConnection = async (stream: MediaStream) => {
     try {
       setConnectionStatus('connecting');
-
-      // Create peer connection
-      const peerConnection = new RTCPeerConnection({
-        iceServers: [
-          { urls: 'stun:stun.l.google.com:19302' },
-          { urls: 'stun:stun1.l.google.com:19302' }
-        ]
-      });
-
-      peerConnectionRef.current = peerConnection;
-
-      // Add local stream
-      stream.getTracks().forEach(track => {
-        peerConnection.addTrack(track, stream);
-      });
-
-      // Handle ICE candidates
-      peerConnection.onicecandidate = (event) => {
-        if (event.candidate && websocketRef.current) {
-          console.log('Phone sending ICE candidate');
-          websocketRef.current.send(JSON.stringify({
-            type: 'ice-candidate',
-            candidate: event.candidate
-          }));
+      sessionIdRef.current = null;
+      let reconnectAttempts = 0;
+      // Fetched up front: connections are created synchronously when an offer arrives
+      let iceServers = await fetchIceServers();
+      // Stopped while waiting
+      if (videoRef.current?.srcObject !== stream) return;
+
+      // Always goes through the current socket, which changes on every reconnect
+      const send = (message: ClientMessage) => {
+        const websocket = websocketRef.current;
+        if (websocket && websocket.readyState === WebSocket.OPEN) {
+          websocket.send(encodeClientMessage(message));
         }
       };
 
-      // Handle connection state changes
-      peerConnection.onconnectionstatechange = () => {
-        console.log('Phone connection state:', peerConnection.connectionState);
-        if (peerConnection.connectionState === 'connected') {
-          console.log('Phone WebRTC connection established successfully');
+      // Reflect the best state across all viewer (and server-peer) connections
+      const updateConnectionStatus = () => {
+        const states = Array.from(connectionsRef.current.values()).map(connection => connection.peerConnection.connectionState);
+
+        if (states.includes('connected')) {
           setConnectionStatus('connected');
           setIsStreaming(true);
-        } else if (peerConnection.connectionState === 'failed') {
-          console.error('Phone WebRTC connection failed');
-          setConnectionStatus('disconnected');
+        } else if (states.includes('connecting') || states.includes('new') || states.length === 0) {
+          setConnectionStatus('connecting');
           setIsStreaming(false);
-        } else if (peerConnection.connectionState === 'disconnected') {
-          console.log('Phone WebRTC connection disconnected');
+        } else {
           setConnectionStatus('disconnected');
           setIsStreaming(false);
-        } else if (peerConnection.connectionState === 'connecting') {
-          console.log('Phone WebRTC connection attempting to connect');
-          setConnectionStatus('connecting');
         }
       };
 
-      // Handle ICE connection state changes
-      peerConnection.oniceconnectionstatechange = () => {
-        console.log('Phone ICE connection state:', peerConnection.iceConnectionState);
-        if (peerConnection.iceConnectionState === 'connected' || peerConnection.iceConnectionState === 'completed') {
-          console.log('Phone ICE connection established');
-        } else if (peerConnection.iceConnectionState === 'failed') {
-          console.error('Phone ICE connection failed');
-          // Try to restart ICE
-          peerConnection.restartIce();
-        }
+      // With several viewers, whichever result arrived last is shown
+      const showDetections = (result: DetectionResultPayload) => {
+        setDetections(result.detections);
+        if (detectionsStaleTimerRef.current) clearTimeout(detectionsStaleTimerRef.current);
+        detectionsStaleTimerRef.current = setTimeout(() => setDetections([]), DETECTIONS_STALE_MS);
       };
 
-      // Initialize WebSocket connection
-      const wsProtocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
-      const wsHost = window.location.host; // Use host instead of hostname to include port
-      const wsUrl = `${wsProtocol}//${wsHost}/ws`;
-      const websocket = new WebSocket(wsUrl);
-      websocketRef.current = websocket;
-
-      websocket.onopen = () => {
-        console.log('WebSocket connected');
-        // Request to start streaming
-        websocket.send(JSON.stringify({
-          type: 'start-stream',
-          role: 'phone'
-        }));
+      const closeConnection = (peerId: string) => {
+        const connection = connectionsRef.current.get(peerId);
+        if (connection) {
+          connection.peerConnection.close();
+          connectionsRef.current.delete(peerId);
+        }
       };
 
-      websocket.onmessage = async (event) => {
-        const message = JSON.parse(event.data);
-        
-        switch (message.type) {
-          case 'offer': {
-            console.log('Phone received offer from browser');
-            try {
-              await peerConnection.setRemoteDescription(message.offer);
-              console.log('Phone set remote description (offer)');
-              console.log('Phone creating answer');
-              const answer = await peerConnection.createAnswer();
-              await peerConnection.setLocalDescription(answer);
-              console.log('Phone set local description (answer)');
-              console.log('Phone sending answer to server');
-              websocket.send(JSON.stringify({
-                type: 'answer',
-                answer: answer
-              }));
-            } catch (error) {
-              console.error('Phone failed to handle offer:', error);
-              setError(`Failed to establish connection: ${error.message}`);
+      // The phone is the polite peer: when a viewer's offer collides with its
+      // own (e.g. both restart ICE at once), it yields to the viewer's
+      const createConnection = (peerId: string) => {
+        closeConnection(peerId);
+
+        const peerConnection = new RTCPeerConnection({ iceServers });
+        const connection = new PerfectNegotiation(peerConnection, {
+          polite: true,
+          canOffer: peerId !== SERVER_PEER_ID,
+          sendDescription: (description, iceRestart) => {
+            console.log(`Phone sending ${description.type} to ${peerId}${iceRestart ? ' (ICE restart)' : ''}`);
+            send(description.type === 'offer'
+              ? { type: 'offer', offer: description, iceRestart, to: peerId }
+              : { type: 'answer', answer: description, to: peerId });
+          }
+        });
+        connectionsRef.current.set(peerId, connection);
+
+        stream.getTracks().forEach(track => {
+          peerConnection.addTrack(track, stream);
+        });
+
+        peerConnection.ondatachannel = (event) => {
+          if (event.channel.label !== DETECTION_CHANNEL_LABEL) return;
+
+          event.channel.onmessage = ({ data }) => {
+            const { message, error } = parseServerMessage(data);
+            if (error || message.type !== 'detection-result') {
+              console.error(`Ignoring malformed detection message from ${peerId}`);
+              return;
             }
-            break;
+            showDetections(message.data);
+          };
+        };
+
+        peerConnection.onicecandidate = (event) => {
+          if (event.candidate) {
+            send({ type: 'ice-candidate', candidate: event.candidate, to: peerId });
+          }
+        };
+
+        peerConnection.onconnectionstatechange = () => {
+          console.log(`Phone connection state (${peerId}):`, peerConnection.connectionState);
+          updateConnectionStatus();
+        };
+
+        peerConnection.oniceconnectionstatechange = () => {
+          if (peerConnection.iceConnectionState === 'failed') {
+            console.error(`Phone ICE connection failed (${peerId})`);
+            // Try to restart ICE
+            connection.restartIce();
+          }
+        };
+
+        return connection;
+      };
+
+      // The camera and peer connections outlive the socket: after a drop the
+      // phone reconnects and resumes its session, and viewers renegotiate
+      const connectSignaling = () => {
+        const websocket = new WebSocket(signalingUrl());
+        websocketRef.current = websocket;
+
+        websocket.onopen = () => {
+          console.log('WebSocket connected');
+          // Request to start streaming, or resume the session after a reconnect
+          websocket.send(encodeClientMessage({
+            type: 'start-stream',
+            version: PROTOCOL_VERSION,
+            role: 'phone',
+            roomId: getRoomId(),
+            token: getPairingToken(),
+            pin: getPairingToken() ? undefined : pinRef.current,
+            sessionId: sessionIdRef.current
+          }));
+        };
+
+        websocket.onmessage = async (event) => {
+          const { message, error } = parseServerMessage(event.data);
+          if (error) {
+            console.error('Ignoring malformed signaling message:', error.message);
+            return;
           }
-            
-          case 'ice-candidate':
-            if (message.candidate) {
-              console.log('Phone received ICE candidate from browser');
+
+          switch (message.type) {
+            case 'room-joined':
+              console.log(`Phone ${message.resumed ? 'resumed its session' : 'joined'} in room ${message.roomId}`);
+              sessionIdRef.current = message.sessionId;
+              reconnectAttempts = 0;
+              updateConnectionStatus();
+              // Long sessions outlive time-limited TURN credentials
+              fetchIceServers().then(servers => {
+                iceServers = servers;
+              });
+              break;
+
+            case 'error':
+              console.error(`Signaling error (${message.code}):`, message.message);
+              if (FATAL_ERROR_CODES.has(message.code)) {
+                // Release the camera and the socket and go back to the start
+                // screen, where the user can try again with a fresh code
+                stopStreaming();
+                if (message.code === 'pairing-rejected' && getPairingToken()) {
+                  // The QR code's token is spent; fall back to entering a PIN
+                  const url = new URL(window.location.href);
+                  url.searchParams.delete('token');
+                  window.history.replaceState(null, '', url);
+                }
+                setError(message.message);
+              }
+              break;
+
+            case 'offer':
+            case 'answer': {
+              const description = message.type === 'offer' ? message.offer : message.answer;
+              console.log(`Phone received ${description.type} from ${message.from}${message.type === 'offer' && message.iceRestart ? ' (ICE restart)' : ''}`);
+              // A viewer renegotiates its existing connection (it keeps its peer
+              // ID across reconnects); the server peer starts afresh every time
+              let connection = connectionsRef.current.get(message.from);
+              if (message.type === 'offer' && (!connection || message.from === SERVER_PEER_ID)) {
+                connection = createConnection(message.from);
+              }
+              if (!connection) break;
+
               try {
-                await peerConnection.addIceCandidate(message.candidate);
-                console.log('Phone added ICE candidate successfully');
+                await connection.handleDescription(description);
               } catch (error) {
-                console.error('Phone failed to add ICE candidate:', error);
+                console.error(`Phone failed to handle ${description.type}:`, error);
+                setError(`Failed to establish connection: ${error.message}`);
               }
+              break;
             }
-            break;
-        }
-      };
 
-      websocket.onerror = (error) => {
-        console.error('WebSocket error:', error);
-        setError('Connection failed. Please check your network.');
-        setConnectionStatus('disconnected');
-      };
+            case 'ice-candidate': {
+              const connection = connectionsRef.current.get(message.from);
+              if (message.candidate && connection) {
+                try {
+                  await connection.handleCandidate(message.candidate);
+                } catch (error) {
+                  console.error(`Phone failed to add ICE candidate from ${message.from}:`, error);
+                }
+              }
+              break;
+            }
+
+            case 'peer-disconnected':
+              // The viewer may resume and renegotiate; keep its connection until then
+              console.log(`Viewer ${message.peerId} disconnected (${message.reason}), waiting for it to resume`);
+              break;
+
+            case 'peer-left':
+              // A viewer (or the server peer) went away; the others keep their connections
+              console.log(`${message.role === 'server' ? 'Server peer' : `Viewer ${message.peerId}`} left (${message.reason ?? 'closed'})`);
+              closeConnection(message.peerId);
+              updateConnectionStatus();
+              break;
+          }
+        };
+
+        websocket.onerror = (error) => {
+          console.error('WebSocket error:', error);
+        };
+
+        websocket.onclose = (event) => {
+          console.log('WebSocket closed:', event.code, event.reason);
+          if (websocketRef.current !== websocket) return;
+
+          // Never joined (bad code, unsupported version): retrying will not help
+          if (!sessionIdRef.current) {
+            setError(error => error || 'Connection failed. Please check your network.');
+            setConnectionStatus('disconnected');
+            setIsStreaming(false);
+            return;
+          }
 
-      websocket.onclose = (event) => {
-        console.log('WebSocket closed:', event.code, event.reason);
-        setConnectionStatus('disconnected');
-        setIsStreaming(false);
+          const delay = reconnectDelay(reconnectAttempts++);
+          console.log(`Reconnecting in ${Math.round(delay)}ms (attempt ${reconnectAttempts})`);
+          setConnectionStatus('connecting');
+          reconnectTimerRef.current = setTimeout(connectSignaling, delay);
+        };
       };
 
+      connectSignaling();
+
     } catch (error) {
       console.error('WebRTC setup failed:', error);
       setError(`Connection setup failed: ${error}`);
@@ -257,15 +402,27 @@ export default function PhoneStreamPage() {
   };
 
   const cleanup = () => {
-    if (peerConnectionRef.current) {
-      peerConnectionRef.current.close();
-      peerConnectionRef.current = null;
+    connectionsRef.current.forEach(connection => connection.peerConnection.close());
+    connectionsRef.current.clear();
+
+    if (detectionsStaleTimerRef.current) {
+      clearTimeout(detectionsStaleTimerRef.current);
+      detectionsStaleTimerRef.current = null;
     }
+    setDetections([]);
     
+    if (reconnectTimerRef.current) {
+      clearTimeout(reconnectTimerRef.current);
+      reconnectTimerRef.current = null;
+    }
+
     if (websocketRef.current) {
-      websocketRef.current.close();
+      // A deliberate close ends the session on the server instead of holding it
+      websocketRef.current.onclose = null;
+      websocketRef.current.close(1000);
       websocketRef.current = null;
     }
+    sessionIdRef.current = null;
 
     if (videoRef.current && videoRef.current.srcObject) {
       const stream = videoRef.current.srcObject as MediaStream;
@@ -309,6 +466,11 @@ export default function PhoneStreamPage() {
                 muted
                 className="w-full h-full object-cover"
               />
+
+              <ObjectDetectionOverlay
+                detections={detections}
+                videoRef={videoRef}
+              />
               
               {!cameraInitialized && (
                 <div className="absolute inset-0 flex flex-col items-center justify-center bg-gradient-to-br from-gray-800/50 to-black/50">
@@ -341,13 +503,28 @@ export default function PhoneStreamPage() {
                   Point your camera at objects to detect them in real-time
                 </p>
                 <p className="text-xs text-gray-400">
-                  Detection results will appear on the main browser screen
+                  Detected objects are outlined on this preview and on the browser screen
                 </p>
               </div>
               
+              {!cameraInitialized && !getPairingToken() && (
+                <Input
+                  value={pin}
+                  onChange={(event) => {
+                    const value = event.target.value.replace(/\D/g, '').slice(0, 6);
+                    setPin(value);
+                    pinRef.current = value;
+                  }}
+                  inputMode="numeric"
+                  autoComplete="one-time-code"
+                  placeholder="Pairing PIN from the dashboard"
+                  className="bg-white/10 border-white/20 text-white text-center font-mono tracking-widest"
+                />
+              )}
+
               {!cameraInitialized ? (
                 <Button 
-                  onClick={initializePhoneStream}
+                  onClick={startCamera}
                   disabled={isStreaming}
                   className={`w-full font-semibold transition-all duration-200 ${
                     isStreaming 
@@ -397,7 +574,7 @@ export default function PhoneStreamPage() {
               <span className="text-pink-400">•</span> Point camera at different objects to test detection
             </p>
             <p className="text-gray-300 flex items-center gap-2">
-              <span className="text-green-400">•</span> Detection results appear on the browser screen
+              <span className="text-green-400">•</span> Detection boxes appear here and on the browser screen
             </p>
           </CardContent>
         </Card>
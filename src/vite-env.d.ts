@@ -1 +1,6 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Public base URL for the QR code and share links; defaults to the page's origin
+  readonly VITE_PUBLIC_URL?: string;
+}